@@ -0,0 +1,337 @@
+#!/usr/bin/env node
+/**
+ * Command line interface for dry-running SQL files outside of VS Code, e.g. to enforce scan budgets in CI.
+ * Exits with 1 when any file exceeds its scan size or cost threshold or fails validation.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { BigQueryPreviewerConfig, getConfiguration, setActiveProfileName, setSettingsSource, SettingsSource } from '../services/configurationService';
+import { analyzeSqlFile } from '../services/fileAnalysisService';
+import { setLogSink } from '../services/logService';
+import { parseSettingsFile } from './settingsFile';
+import { BatchFileResult, formatBatchSummary } from '../utils/batchReport';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { applyBudgetRule, BudgetPolicy, budgetPolicyFileName, findBudgetRule, parseBudgetPolicy } from '../utils/budgetPolicy';
+import { evaluateScan } from '../utils/costCalculator';
+import { formatCost, formatDataSize } from '../utils/formatters';
+import { matchesGlob } from '../utils/globMatcher';
+
+// Exit codes
+const exitOk = 0;
+const exitFailed = 1;
+const exitUsageError = 2;
+
+// Settings file used when no --config option is given, shared with the editor
+const defaultSettingsFile = path.join('.vscode', 'settings.json');
+
+const usage = `Usage: bigquery-previewer [options] [files, directories or globs...]
+
+Dry-runs BigQuery SQL files and checks them against the scan size and cost thresholds,
+including the per-path limits of ${budgetPolicyFileName} if it exists.
+Without paths, the files matching the batchInclude setting are analyzed.
+
+Options:
+  --config <file>       Settings file (default: ${defaultSettingsFile} if it exists)
+  --policy <file>       Budget policy file (default: ${budgetPolicyFileName} if it exists)
+  --profile <name>      Connection profile from the profiles setting to use
+  --format <format>     Output format: table or json (default: table)
+  --max-mb <number>     Scan size budget in MB, overriding scanWarningThresholdMB
+  --max-cost <number>   Cost budget, overriding costWarningThreshold
+  --concurrency <n>     Files dry-run at the same time, overriding batchConcurrency
+  --verbose             Write the log, including dry run durations and error payloads, to stderr
+  -h, --help            Show this help`;
+
+/**
+ * Options given on the command line
+ */
+interface CliOptions {
+    paths: string[];
+    configPath?: string;
+    policyPath?: string;
+    profile?: string;
+    format: 'table' | 'json';
+    maxMb?: number;
+    maxCost?: number;
+    concurrency?: number;
+    verbose: boolean;
+    help: boolean;
+}
+
+/**
+ * The result of a file together with its budget check
+ */
+interface CliFileResult extends BatchFileResult {
+    overBudget: boolean;
+    /** Pattern of the budget policy rule that applied to the file */
+    rule?: string;
+}
+
+/**
+ * Parses the command line arguments
+ * @param args The arguments after the script name
+ * @returns The parsed options
+ * @throws Error for unknown options or invalid values
+ */
+function parseArguments(args: string[]): CliOptions {
+    const options: CliOptions = { paths: [], format: 'table', verbose: false, help: false };
+
+    const readValue = (name: string, index: number): string => {
+        const value = args[index + 1];
+        if (value === undefined || value.startsWith('--')) {
+            throw new Error(`Option ${name} requires a value.`);
+        }
+        return value;
+    };
+    const readNumber = (name: string, index: number): number => {
+        const value = Number(readValue(name, index));
+        if (!Number.isFinite(value) || value < 0) {
+            throw new Error(`Option ${name} requires a non-negative number.`);
+        }
+        return value;
+    };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        switch (arg) {
+            case '-h':
+            case '--help':
+                options.help = true;
+                break;
+            case '--config':
+                options.configPath = readValue(arg, i++);
+                break;
+            case '--policy':
+                options.policyPath = readValue(arg, i++);
+                break;
+            case '--profile':
+                options.profile = readValue(arg, i++);
+                break;
+            case '--format': {
+                const format = readValue(arg, i++);
+                if (format !== 'table' && format !== 'json') {
+                    throw new Error(`Unknown format "${format}". Use table or json.`);
+                }
+                options.format = format;
+                break;
+            }
+            case '--max-mb':
+                options.maxMb = readNumber(arg, i++);
+                break;
+            case '--max-cost':
+                options.maxCost = readNumber(arg, i++);
+                break;
+            case '--concurrency':
+                options.concurrency = Math.max(1, Math.floor(readNumber(arg, i++)));
+                break;
+            case '--verbose':
+                options.verbose = true;
+                break;
+            default:
+                if (arg.startsWith('-')) {
+                    throw new Error(`Unknown option ${arg}.`);
+                }
+                options.paths.push(arg);
+        }
+    }
+
+    return options;
+}
+
+/**
+ * Loads the settings file and applies the budget overrides of the command line
+ * @param options The command line options
+ * @returns The settings source to read the configuration from
+ */
+function loadSettings(options: CliOptions): SettingsSource {
+    const settingsPath = options.configPath ?? (fs.existsSync(defaultSettingsFile) ? defaultSettingsFile : undefined);
+    const fileSettings = settingsPath ? parseSettingsFile(fs.readFileSync(settingsPath, 'utf8')) : undefined;
+
+    const overrides: Partial<Record<keyof BigQueryPreviewerConfig, unknown>> = {};
+    if (options.maxMb !== undefined) {
+        overrides.scanWarningThresholdMB = options.maxMb;
+        overrides.showScanWarnings = true;
+    }
+    if (options.maxCost !== undefined) {
+        overrides.costWarningThreshold = options.maxCost;
+        overrides.showScanWarnings = true;
+    }
+    if (options.concurrency !== undefined) {
+        overrides.batchConcurrency = options.concurrency;
+    }
+
+    return {
+        get<T>(key: string, defaultValue: T): T {
+            if (key in overrides) {
+                return overrides[key as keyof BigQueryPreviewerConfig] as T;
+            }
+            return fileSettings ? fileSettings.get(key, defaultValue) : defaultValue;
+        }
+    };
+}
+
+/**
+ * Loads the budget policy file
+ * @param options The command line options
+ * @returns The policy, or undefined if there is no policy file
+ * @throws Error if the policy file is invalid
+ */
+function loadPolicy(options: CliOptions): BudgetPolicy | undefined {
+    const policyPath = options.policyPath ?? (fs.existsSync(budgetPolicyFileName) ? budgetPolicyFileName : undefined);
+    if (!policyPath) {
+        return undefined;
+    }
+    try {
+        return parseBudgetPolicy(fs.readFileSync(policyPath, 'utf8'));
+    } catch (error: any) {
+        throw new Error(`Invalid policy file ${policyPath}: ${error.message}`);
+    }
+}
+
+/**
+ * Finds the files to analyze. Files given by name are always analyzed; files found in
+ * directories or by glob must not match the exclude glob.
+ * @param root The directory paths and globs are relative to
+ * @param patterns File paths, directories or globs
+ * @param config The configuration with the include and exclude globs
+ * @returns The paths of the files relative to the root, sorted
+ */
+function findFiles(root: string, patterns: string[], config: BigQueryPreviewerConfig): string[] {
+    const files = new Set<string>();
+    const isExcluded = (relativePath: string) => !!config.batchExclude && matchesGlob(relativePath, config.batchExclude);
+
+    const walk = (directory: string): string[] => fs.readdirSync(path.join(root, directory), { withFileTypes: true })
+        .flatMap(entry => {
+            const relativePath = directory ? `${directory}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                // Checking the directory itself avoids walking excluded trees such as node_modules
+                return isExcluded(`${relativePath}/`) ? [] : walk(relativePath);
+            }
+            return entry.isFile() && !isExcluded(relativePath) ? [relativePath] : [];
+        });
+
+    let workspaceFiles: string[] | undefined;
+    for (const pattern of patterns.length > 0 ? patterns : [config.batchInclude]) {
+        const absolutePath = path.resolve(root, pattern);
+        const relativePath = path.relative(root, absolutePath).split(path.sep).join('/');
+        const stats = fs.existsSync(absolutePath) ? fs.statSync(absolutePath) : undefined;
+
+        if (stats?.isFile()) {
+            files.add(relativePath);
+        } else if (stats?.isDirectory()) {
+            walk(relativePath).filter(file => file.endsWith('.sql')).forEach(file => files.add(file));
+        } else {
+            workspaceFiles ??= walk('');
+            workspaceFiles.filter(file => matchesGlob(file, pattern.replace(/^\.\//, ''))).forEach(file => files.add(file));
+        }
+    }
+
+    return [...files].sort();
+}
+
+/**
+ * Formats the results as a plain text table followed by the errors of failed files
+ * @param results The results of the analyzed files
+ * @param config The configuration used for the costs
+ * @returns The table text
+ */
+function formatTable(results: CliFileResult[], config: BigQueryPreviewerConfig): string {
+    const rows = results.map(result => [
+        result.file,
+        String(result.statements),
+        formatDataSize(result.bytes),
+        formatCost(result.cost, config.currency),
+        result.errors.length > 0 ? 'ERROR' : result.overBudget ? 'OVER BUDGET' : 'OK'
+    ]);
+    const header = ['File', 'Statements', 'Scan', 'Cost', 'Status'];
+    const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+    const formatRow = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+    const lines = [formatRow(header), formatRow(widths.map(width => '-'.repeat(width))), ...rows.map(formatRow)];
+    lines.push('', `Total: ${formatBatchSummary(results, config.currency)}`);
+
+    for (const result of results.filter(result => result.errors.length > 0)) {
+        lines.push('', `${result.file}:`, ...result.errors.map(error => `  ${error}`));
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Runs the CLI
+ * @param args The arguments after the script name
+ * @returns The exit code
+ */
+async function main(args: string[]): Promise<number> {
+    let options: CliOptions;
+    let policy: BudgetPolicy | undefined;
+    try {
+        options = parseArguments(args);
+        if (options.help) {
+            console.log(usage);
+            return exitOk;
+        }
+        // Log messages go to stderr so that they do not mix with the table or JSON on stdout
+        const writeLog = (level: string) => (message: string) => console.error(`[${level}] ${message}`);
+        const discard = () => undefined;
+        setLogSink({
+            trace: options.verbose ? writeLog('trace') : discard,
+            debug: options.verbose ? writeLog('debug') : discard,
+            info: options.verbose ? writeLog('info') : discard,
+            warn: options.verbose ? writeLog('warning') : discard,
+            error: writeLog('error')
+        });
+        const settings = loadSettings(options);
+        setSettingsSource(() => settings);
+        if (options.profile !== undefined) {
+            if (!getConfiguration().profiles.some(profile => profile.name === options.profile)) {
+                throw new Error(`Unknown profile "${options.profile}".`);
+            }
+            setActiveProfileName(options.profile);
+        }
+        policy = loadPolicy(options);
+    } catch (error: any) {
+        console.error(`bigquery-previewer: ${error.message}\n\n${usage}`);
+        return exitUsageError;
+    }
+
+    const config = getConfiguration();
+    const root = process.cwd();
+    const files = findFiles(root, options.paths, config);
+    if (files.length === 0) {
+        console.error('bigquery-previewer: No SQL files found.');
+        return exitUsageError;
+    }
+
+    const results = await mapWithConcurrency(files, config.batchConcurrency, async (file): Promise<CliFileResult> => {
+        let text: string;
+        try {
+            text = fs.readFileSync(path.join(root, file), 'utf8');
+        } catch (error: any) {
+            return { file, statements: 0, bytes: 0, cost: 0, tables: [], statementTypes: [], errors: [`Could not read file: ${error.message}`], overBudget: false };
+        }
+
+        const result = await analyzeSqlFile(file, text);
+        const rule = policy && findBudgetRule(policy, file);
+        const evaluation = evaluateScan(result.bytes, result.cost, applyBudgetRule(config, rule));
+        return {
+            ...result,
+            overBudget: evaluation.exceedsBytesThreshold || evaluation.exceedsCostThreshold || evaluation.exceedsErrorThreshold,
+            rule: rule?.pattern
+        };
+    }) as CliFileResult[];
+
+    if (options.format === 'json') {
+        console.log(JSON.stringify({ summary: formatBatchSummary(results, config.currency), files: results }, null, 2));
+    } else {
+        console.log(formatTable(results, config));
+    }
+
+    return results.some(result => result.errors.length > 0 || result.overBudget) ? exitFailed : exitOk;
+}
+
+main(process.argv.slice(2)).then(exitCode => {
+    process.exitCode = exitCode;
+}, error => {
+    console.error(error);
+    process.exitCode = exitFailed;
+});
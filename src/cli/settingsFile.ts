@@ -0,0 +1,94 @@
+/**
+ * Reading BigQuery Previewer settings from a JSON file for the CLI
+ */
+import { SettingsSource } from '../services/configurationService';
+
+// Prefix of the extension's keys in VS Code settings files
+const settingsPrefix = 'bigqueryPreviewer.';
+
+/**
+ * Parses a settings file. Accepts VS Code settings files (`.vscode/settings.json`) with
+ * `bigqueryPreviewer.` keys, comments and trailing commas, as well as plain JSON objects with
+ * unprefixed keys or a nested `bigqueryPreviewer` object.
+ * @param text The content of the settings file
+ * @returns A settings source reading the values of the file
+ */
+export function parseSettingsFile(text: string): SettingsSource {
+    const parsed = JSON.parse(stripJsonComments(text));
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error('The settings file must contain a JSON object.');
+    }
+
+    const values: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(parsed)) {
+        if (key === 'bigqueryPreviewer' && typeof value === 'object' && value !== null) {
+            Object.assign(values, value);
+        } else if (key.startsWith(settingsPrefix)) {
+            values[key.substring(settingsPrefix.length)] = value;
+        } else if (!key.includes('.')) {
+            values[key] = value;
+        }
+    }
+
+    return {
+        get<T>(key: string, defaultValue: T): T {
+            return key in values ? values[key] as T : defaultValue;
+        }
+    };
+}
+
+/**
+ * Removes comments and trailing commas from JSON with comments, keeping strings intact
+ * @param text The JSON with comments
+ * @returns Plain JSON text
+ */
+export function stripJsonComments(text: string): string {
+    const withoutComments = mapOutsideStrings(text, (code, i) => {
+        if (code.startsWith('//', i)) {
+            const lineEnd = code.indexOf('\n', i);
+            return { output: '', end: lineEnd === -1 ? code.length : lineEnd };
+        }
+        if (code.startsWith('/*', i)) {
+            const commentEnd = code.indexOf('*/', i + 2);
+            return { output: '', end: commentEnd === -1 ? code.length : commentEnd + 2 };
+        }
+        return undefined;
+    });
+
+    return mapOutsideStrings(withoutComments, (code, i) =>
+        code[i] === ',' && /^\s*[}\]]/.test(code.substring(i + 1, i + 200)) ? { output: '', end: i + 1 } : undefined);
+}
+
+/**
+ * Copies JSON text while letting a callback replace text outside of strings
+ * @param text The JSON text
+ * @param replace Called at every offset outside of strings; returns the replacement and the offset to continue at, or undefined to keep the character
+ * @returns The transformed text
+ */
+function mapOutsideStrings(text: string, replace: (text: string, offset: number) => { output: string; end: number } | undefined): string {
+    let result = '';
+    let i = 0;
+
+    while (i < text.length) {
+        if (text[i] === '"') {
+            let end = i + 1;
+            while (end < text.length && text[end] !== '"') {
+                end += text[end] === '\\' ? 2 : 1;
+            }
+            result += text.substring(i, end + 1);
+            i = end + 1;
+            continue;
+        }
+
+        const replacement = replace(text, i);
+        if (replacement) {
+            result += replacement.output;
+            i = replacement.end;
+        } else {
+            result += text[i];
+            i++;
+        }
+    }
+
+    return result;
+}
@@ -1,9 +1,23 @@
 import * as vscode from 'vscode';
-import { analyzeQuery, getLastErrorMessage } from '../services/analysisService';
-import { getDryRunStats } from '../services/bigQueryService'; 
+import { analyzeQuery, analyzeStatement, getLastErrorMessage } from '../services/analysisService';
+import { clearDryRunCache, getDryRunStats, getFullyQualifiedName } from '../services/bigQueryService';
 import { getConfiguration } from '../services/configurationService';
-import { isEligibleForAnalysis } from '../utils/documentUtils';
+import { getFileHistory } from '../services/historyService';
+import { activateProfile, getActiveProfileName } from '../services/profileService';
+import { analyzeWorkspace, formatBatchReportSummary, getLastBatchReport } from '../services/batchAnalysisService';
+import { refreshMetadataIndex } from '../services/metadataIndexService';
+import { compareWithHead } from '../services/compareService';
+import { analyzeNotebook, isBigQueryNotebook } from '../services/notebookAnalysisService';
+import { getDocumentStatements, isEligibleForAnalysis } from '../utils/documentUtils';
 import { hideResultStatusBar, isResultVisible, getResultTooltip, updateControlStatusBar } from '../ui/statusBarManager';
+import { getReferencedTablesSource, TableTreeNode } from '../ui/referencedTablesView';
+import { getStatementResult, refreshCodeLenses } from '../ui/codeLensManager';
+import { showOutputChannel } from '../ui/outputChannel';
+import { showUsageDashboard } from '../ui/usageDashboard';
+import { formatSchemaMarkdown } from '../utils/schemaFormatter';
+import { formatHistoryMarkdown } from '../utils/analysisHistory';
+import { formatCost, formatDataSize } from '../utils/formatters';
+import { BatchExportFormat, BatchSortKey, formatBatchReport, sortBatchResults } from '../utils/batchReport';
 
 let isExtensionActive = false;
 
@@ -84,6 +98,36 @@ export async function settingsHandler(): Promise<void> {
     await vscode.commands.executeCommand('workbench.action.openSettings', 'bigqueryPreviewer');
 }
 
+/**
+ * Command handler for revealing the log output channel
+ */
+export function showLogHandler(): void {
+    showOutputChannel();
+}
+
+/**
+ * Command handler for opening the usage dashboard
+ */
+export function showUsageDashboardHandler(): void {
+    showUsageDashboard();
+}
+
+/**
+ * Command handler for reading projects, datasets, tables and columns again on their next use
+ */
+export function refreshMetadataHandler(): void {
+    refreshMetadataIndex();
+    vscode.window.showInformationMessage('BigQuery Previewer table metadata will be read again when next needed.');
+}
+
+/**
+ * Command handler for clearing the dry run cache
+ */
+export function clearCacheHandler(): void {
+    clearDryRunCache();
+    vscode.window.showInformationMessage('BigQuery Previewer dry run cache cleared.');
+}
+
 /**
  * Command handler for analyze query command
  */
@@ -112,6 +156,339 @@ export async function analyzeQueryHandler(): Promise<void> {
     await analyzeQuery(editor.document, editor);
 }
 
+/**
+ * Command handler for re-analyzing a single statement, invoked from its CodeLens
+ * @param uri The URI of the document containing the statement
+ * @param range The range of the statement within the document
+ */
+export async function analyzeStatementHandler(uri: vscode.Uri, range: vscode.Range): Promise<void> {
+    // If extension is paused, prompt to activate it
+    if (!isExtensionActive) {
+        const action = await vscode.window.showInformationMessage(
+            'BigQuery Previewer is paused. Do you want to activate it and analyze this statement?',
+            'Activate', 'Cancel'
+        );
+        
+        if (action !== 'Activate') {
+            return;
+        }
+        
+        isExtensionActive = true;
+        updateControlStatusBar(true);
+    }
+
+    const document = await vscode.workspace.openTextDocument(uri);
+    await analyzeStatement(document, range);
+}
+
+/**
+ * Command handler for copying the fully qualified name of a referenced table
+ * @param node The table node of the referenced tables view
+ */
+export async function copyTableNameHandler(node: TableTreeNode): Promise<void> {
+    if (!node?.table) {
+        return;
+    }
+
+    const name = getFullyQualifiedName(node.table);
+    await vscode.env.clipboard.writeText(name);
+    vscode.window.setStatusBarMessage(`Copied ${name}`, 3000);
+}
+
+/**
+ * Command handler for re-analyzing the query whose tables are shown in the referenced tables view
+ */
+export async function reanalyzeReferencedTablesHandler(): Promise<void> {
+    const source = getReferencedTablesSource();
+    if (!source) {
+        vscode.window.showInformationMessage('No analyzed query to re-analyze.');
+        return;
+    }
+
+    if (source.range) {
+        await analyzeStatementHandler(source.uri, source.range);
+    } else {
+        const document = await vscode.workspace.openTextDocument(source.uri);
+        const editor = vscode.window.visibleTextEditors.find(e => e.document.uri.toString() === source.uri.toString());
+        // Re-analyze the whole document even if it has not changed since the last analysis
+        await analyzeQuery(document, editor?.selection.isEmpty ? editor : undefined, 0);
+    }
+}
+
+/**
+ * Command handler for showing the output schema of the statement under the cursor
+ */
+export async function showOutputSchemaHandler(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || !isEligibleForAnalysis(editor.document)) {
+        vscode.window.showErrorMessage('No active editor found. Please open a .sql file to analyze.');
+        return;
+    }
+
+    const document = editor.document;
+    const offset = document.offsetAt(editor.selection.active);
+    const statement = getDocumentStatements(document).find(candidate => offset >= candidate.startOffset && offset <= candidate.endOffset);
+    const result = statement && getStatementResult(document.uri.toString(), statement.text);
+    if (!statement || !result) {
+        vscode.window.showInformationMessage('The statement under the cursor has not been analyzed yet.');
+        return;
+    }
+    if (result.errors.length > 0 || result.schema.length === 0) {
+        vscode.window.showInformationMessage('The statement under the cursor has no output schema.');
+        return;
+    }
+
+    const line = document.positionAt(statement.startOffset).line + 1;
+    const content = `# Output schema\n\n${document.fileName}, statement at line ${line}\n\n${formatSchemaMarkdown(result.schema)}\n`;
+    const schemaDocument = await vscode.workspace.openTextDocument({ language: 'markdown', content });
+    await vscode.window.showTextDocument(schemaDocument, { viewColumn: vscode.ViewColumn.Beside, preview: true });
+}
+
+/**
+ * Command handler for showing the analysis history of the current file
+ */
+export async function showHistoryHandler(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || !isEligibleForAnalysis(editor.document)) {
+        vscode.window.showErrorMessage('No active editor found. Please open a .sql file to analyze.');
+        return;
+    }
+
+    const document = editor.document;
+    const history = getFileHistory(document.uri);
+    if (Object.values(history).every(entries => entries.length === 0)) {
+        vscode.window.showInformationMessage('The current file has no analysis history yet.');
+        return;
+    }
+
+    const config = getConfiguration();
+    const content = `# Analysis history\n\n${document.fileName}\n\n${formatHistoryMarkdown(history, config.currency)}\n`;
+    const historyDocument = await vscode.workspace.openTextDocument({ language: 'markdown', content });
+    await vscode.window.showTextDocument(historyDocument, { viewColumn: vscode.ViewColumn.Beside, preview: true });
+}
+
+/**
+ * Command handler for comparing the scan of the current file, or of the statement under the cursor,
+ * with the committed version of the file
+ */
+export async function compareWithHeadHandler(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || !isEligibleForAnalysis(editor.document)) {
+        vscode.window.showErrorMessage('No active editor found. Please open a .sql file to analyze.');
+        return;
+    }
+
+    const document = editor.document;
+    const offset = document.offsetAt(editor.selection.active);
+    const statements = getDocumentStatements(document);
+    const statementIndex = statements.findIndex(statement => offset >= statement.startOffset && offset <= statement.endOffset);
+
+    // Only ask what to compare if the file has several statements and the cursor is in one of them
+    let compareStatement = false;
+    if (statements.length > 1 && statementIndex >= 0) {
+        const line = document.positionAt(statements[statementIndex].startOffset).line + 1;
+        const selected = await vscode.window.showQuickPick(
+            [
+                { label: '$(file) Whole file', statement: false },
+                { label: `$(list-flat) Statement ${statementIndex + 1}`, description: `line ${line}`, statement: true }
+            ],
+            { placeHolder: 'Compare with HEAD' }
+        );
+        if (!selected) {
+            return;
+        }
+        compareStatement = selected.statement;
+    }
+
+    const content = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Dry running the committed and working versions...' },
+        () => compareWithHead(document, compareStatement ? statementIndex : undefined)
+    );
+    if (content === undefined) {
+        vscode.window.showInformationMessage('The current file has no committed version in a git repository.');
+        return;
+    }
+
+    const comparisonDocument = await vscode.workspace.openTextDocument({ language: 'markdown', content: `${content}\n` });
+    await vscode.window.showTextDocument(comparisonDocument, { viewColumn: vscode.ViewColumn.Beside, preview: true });
+}
+
+/**
+ * Command handler for dry running the %%bigquery cells of the active notebook and totaling their scan
+ */
+export async function analyzeNotebookHandler(): Promise<void> {
+    const notebook = vscode.window.activeNotebookEditor?.notebook;
+    if (!notebook || !isBigQueryNotebook(notebook)) {
+        vscode.window.showErrorMessage('No active notebook found. Please open a Jupyter notebook with %%bigquery cells.');
+        return;
+    }
+
+    const total = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Dry running %%bigquery cells...' },
+        () => analyzeNotebook(notebook, 'command')
+    );
+    if (total.cells === 0) {
+        vscode.window.showInformationMessage('The notebook has no %%bigquery cells to analyze.');
+        return;
+    }
+
+    const config = getConfiguration();
+    const cost = config.showCost ? ` (${formatCost(total.cost, config.currency)})` : '';
+    const failed = total.failed > 0 ? ` ${total.failed} of ${total.cells} cells failed and are not included.` : '';
+    const message = `${total.cells} %%bigquery ${total.cells === 1 ? 'cell scans' : 'cells scan'} ${formatDataSize(total.bytes)}${cost} in total.${failed}`;
+    if (total.failed > 0) {
+        vscode.window.showWarningMessage(message);
+    } else {
+        vscode.window.showInformationMessage(message);
+    }
+}
+
+/**
+ * Command handler for dry running every SQL file of the workspace
+ */
+export async function analyzeWorkspaceHandler(): Promise<void> {
+    const report = await analyzeWorkspace();
+    if (!report) {
+        return;
+    }
+
+    const action = await vscode.window.showInformationMessage(
+        `Workspace analysis: ${formatBatchReportSummary(report)}`,
+        'Show Report', 'Export'
+    );
+
+    if (action === 'Show Report') {
+        await showBatchReportHandler();
+    } else if (action === 'Export') {
+        await exportBatchReportHandler();
+    }
+}
+
+/**
+ * Command handler for showing the report of the last workspace analysis, sorted by a chosen column
+ */
+export async function showBatchReportHandler(): Promise<void> {
+    const report = getLastBatchReport();
+    if (!report) {
+        vscode.window.showInformationMessage('Run "BigQuery Previewer: Analyze Workspace" first.');
+        return;
+    }
+
+    const sortKey = await pickBatchSortKey();
+    if (!sortKey) {
+        return;
+    }
+
+    const config = getConfiguration();
+    const title = `# Workspace analysis\n\n${new Date(report.finishedAt).toLocaleString()}${report.cancelled ? ' (cancelled)' : ''}`;
+    const content = `${title}\n\n${formatBatchReport(sortBatchResults(report.results, sortKey), 'markdown', config.currency)}\n`;
+    const reportDocument = await vscode.workspace.openTextDocument({ language: 'markdown', content });
+    await vscode.window.showTextDocument(reportDocument, { preview: true });
+}
+
+/**
+ * Command handler for saving the report of the last workspace analysis as Markdown, CSV or JSON
+ */
+export async function exportBatchReportHandler(): Promise<void> {
+    const report = getLastBatchReport();
+    if (!report) {
+        vscode.window.showInformationMessage('Run "BigQuery Previewer: Analyze Workspace" first.');
+        return;
+    }
+
+    const formats: Array<vscode.QuickPickItem & { format: BatchExportFormat; extension: string }> = [
+        { label: 'Markdown', description: 'Table for pull requests and wikis', format: 'markdown', extension: 'md' },
+        { label: 'CSV', description: 'One row per file for spreadsheets', format: 'csv', extension: 'csv' },
+        { label: 'JSON', description: 'Full results for scripts', format: 'json', extension: 'json' }
+    ];
+    const selectedFormat = await vscode.window.showQuickPick(formats, { placeHolder: 'Export format' });
+    if (!selectedFormat) {
+        return;
+    }
+
+    const sortKey = await pickBatchSortKey();
+    if (!sortKey) {
+        return;
+    }
+
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const fileName = `bigquery-report.${selectedFormat.extension}`;
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, fileName) : undefined,
+        filters: { [selectedFormat.label]: [selectedFormat.extension] }
+    });
+    if (!target) {
+        return;
+    }
+
+    const config = getConfiguration();
+    const content = formatBatchReport(sortBatchResults(report.results, sortKey), selectedFormat.format, config.currency);
+    await vscode.workspace.fs.writeFile(target, Buffer.from(`${content}\n`, 'utf8'));
+    vscode.window.showInformationMessage(`Workspace analysis report saved to ${vscode.workspace.asRelativePath(target)}.`);
+}
+
+/**
+ * Asks for the column to sort the workspace analysis report by
+ * @returns The chosen column, or undefined if the picker was dismissed
+ */
+async function pickBatchSortKey(): Promise<BatchSortKey | undefined> {
+    const sortOptions: Array<vscode.QuickPickItem & { key: BatchSortKey }> = [
+        { label: '$(credit-card) Cost', description: 'Most expensive first', key: 'cost' },
+        { label: '$(database) Scan size', description: 'Largest scan first', key: 'bytes' },
+        { label: '$(error) Errors', description: 'Failed files first', key: 'errors' },
+        { label: '$(file) File', description: 'Alphabetical', key: 'file' }
+    ];
+    const selected = await vscode.window.showQuickPick(sortOptions, { placeHolder: 'Sort the report by' });
+    return selected?.key;
+}
+
+/**
+ * Command handler for switching the active connection profile
+ */
+export async function switchProfileHandler(): Promise<void> {
+    const config = getConfiguration();
+    const activeProfileName = getActiveProfileName();
+
+    if (config.profiles.length === 0) {
+        const action = await vscode.window.showInformationMessage(
+            'No connection profiles are defined. Add them to the bigqueryPreviewer.profiles setting.',
+            'Open Settings'
+        );
+        if (action === 'Open Settings') {
+            vscode.commands.executeCommand('workbench.action.openSettings', 'bigqueryPreviewer.profiles');
+        }
+        return;
+    }
+
+    const items: Array<vscode.QuickPickItem & { profileName?: string }> = [
+        ...config.profiles.map(profile => ({
+            label: `${profile.name === activeProfileName ? '$(check)' : '$(account)'} ${profile.name}`,
+            description: [profile.projectId, profile.location, profile.authMode].filter(value => value).join(' · '),
+            profileName: profile.name
+        })),
+        {
+            label: `${activeProfileName ? '$(circle-slash)' : '$(check)'} No profile`,
+            description: 'Use the base settings'
+        }
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, { placeHolder: 'Select the connection profile to use' });
+    if (!selected || selected.profileName === activeProfileName) {
+        return;
+    }
+
+    await activateProfile(config.profiles.find(profile => profile.name === selected.profileName));
+    updateControlStatusBar(isExtensionActive);
+    refreshCodeLenses();
+    vscode.window.setStatusBarMessage(`BigQuery Previewer: using ${selected.profileName ? `profile ${selected.profileName}` : 'the base settings'}`, 3000);
+
+    // Re-analyze the current file with the new connection settings
+    const editor = vscode.window.activeTextEditor;
+    if (isExtensionActive && editor && isEligibleForAnalysis(editor.document)) {
+        await analyzeQuery(editor.document, editor, 0);
+    }
+}
+
 /**
  * Command handler for showing result options
  */
@@ -137,13 +514,21 @@ export async function showOptionsHandler(): Promise<void> {
     // Add option to view full error message if available
     const lastFullErrorMessage = getLastErrorMessage();
     if (lastFullErrorMessage) {
-        options.push({ label: '$(error) View Full Error', description: 'View the full error message' });
+        options.push({ label: '$(error) View Full Error', description: 'View the full error message and the log' });
     }
     
-    // Add option to view dry run tracking stats if enabled
+    // Add option to view the dry run usage statistics
+    options.push({ label: '$(graph) Usage Dashboard', description: 'View dry run statistics across sessions' });
+    
+    // Add option to view dry run tracking stats of this session, including the cache, if enabled
     const config = getConfiguration();
     if (config.trackDryRuns) {
-        options.push({ label: '$(graph) Dry Run Stats', description: 'View dry run tracking statistics' });
+        options.push({ label: '$(pulse) Dry Run Stats', description: 'View dry run tracking statistics' });
+    }
+    
+    // Add option to switch the connection profile if any are defined
+    if (config.profiles.length > 0) {
+        options.push({ label: '$(account) Switch Profile', description: `Active: ${getActiveProfileName() ?? 'none'}` });
     }
     
     // Add option to open extension settings
@@ -164,7 +549,11 @@ export async function showOptionsHandler(): Promise<void> {
         } else if (selected.label.includes('Analyze Current Query')) {
             vscode.commands.executeCommand('bigquery-previewer.analyzeQuery');
         } else if (selected.label.includes('View Full Error')) {
-            vscode.window.showErrorMessage(lastFullErrorMessage || 'No error message available.');
+            // The log has the full error payload returned by BigQuery
+            const action = await vscode.window.showErrorMessage(lastFullErrorMessage || 'No error message available.', 'Show Log');
+            if (action === 'Show Log') {
+                showOutputChannel();
+            }
         } else if (selected.label.includes('Dry Run Stats')) {
             // Show the dry run stats directly instead of calling a separate command
             const stats = getDryRunStats();
@@ -177,9 +566,15 @@ export async function showOptionsHandler(): Promise<void> {
 - Total count: ${stats.count}
 - Last run: ${lastTimeString}
 - Current time: ${currentTimeString}
-- Time since last run: ${stats.timeSinceLast}`;
+- Time since last run: ${stats.timeSinceLast}
+- Cache hits: ${stats.cacheHits}
+- Cached results: ${stats.cacheSize}`;
 
             vscode.window.showInformationMessage(message, { modal: true });
+        } else if (selected.label.includes('Usage Dashboard')) {
+            vscode.commands.executeCommand('bigquery-previewer.showUsageDashboard');
+        } else if (selected.label.includes('Switch Profile')) {
+            vscode.commands.executeCommand('bigquery-previewer.switchProfile');
         } else if (selected.label.includes('Settings')) {
             vscode.commands.executeCommand('bigquery-previewer.settings');
         }
@@ -1,33 +1,72 @@
 // The module 'vscode' contains the VS Code extensibility API
 import * as vscode from 'vscode';
-import { analyzeQuery, resetAnalysisState } from './services/analysisService';
+import { analyzeQuery, cancelDocumentAnalyses, resetAnalysisState, resetErrorMessage } from './services/analysisService';
 import { updateTrackingSettings, resetDryRunTracking } from './services/bigQueryService';
 import { isEligibleForAnalysis, removeDocumentFromCache } from './utils/documentUtils';
 import { handleSelectionChange, cleanupSelectionResources } from './services/selectionService';
 import { getConfiguration } from './services/configurationService';
+import { initializeHistory } from './services/historyService';
+import { initializeProfiles } from './services/profileService';
+import { logger } from './services/logService';
+import { initializeUsage, disposeUsage } from './services/usageService';
+import { initializePolicies, onDidChangePolicies, disposePolicies } from './services/policyService';
+import { analyzeNotebook, closeNotebook, disposeNotebookAnalysis, handleNotebookChange, isBigQueryNotebook } from './services/notebookAnalysisService';
 import { 
     startExtensionHandler, 
     pauseExtensionHandler,
     analyzeQueryHandler, 
+    analyzeStatementHandler,
+    clearCacheHandler,
+    copyTableNameHandler,
+    reanalyzeReferencedTablesHandler,
+    showOutputSchemaHandler,
+    showHistoryHandler,
+    switchProfileHandler,
+    analyzeWorkspaceHandler,
+    showBatchReportHandler,
+    exportBatchReportHandler,
+    showLogHandler,
+    showUsageDashboardHandler,
+    refreshMetadataHandler,
+    compareWithHeadHandler,
+    analyzeNotebookHandler,
     showOptionsHandler,
     getExtensionActiveState,
     settingsHandler
 } from './commands/commands';
-import { initializeStatusBar, disposeStatusBar } from './ui/statusBarManager';
+import { initializeStatusBar, updateControlStatusBar, disposeStatusBar, showEditorResult, clearEditorResults } from './ui/statusBarManager';
+import { initializeDiagnostics, clearDiagnostics, disposeDiagnostics } from './ui/diagnosticsManager';
+import { initializeReferencedTablesView, clearReferencedTables, disposeReferencedTablesView } from './ui/referencedTablesView';
+import { schemaHoverProvider } from './ui/schemaHoverProvider';
+import { tableHoverProvider } from './ui/tableHoverProvider';
+import { schemaCompletionProvider, completionTriggerCharacters } from './ui/completionProvider';
+import { statementCodeLensProvider, clearStatementResults, refreshCodeLenses, disposeCodeLens } from './ui/codeLensManager';
+import { initializeOutputChannel, disposeOutputChannel } from './ui/outputChannel';
+import { disposeUsageDashboard } from './ui/usageDashboard';
+import { bigQueryCellStatusBarProvider, bigQueryNotebookTypes, disposeCellStatusBar, refreshCellStatusBar } from './ui/notebookCellStatusBar';
 import { clearDocumentVersionCache } from './utils/documentUtils';
+import { embeddedSqlLanguages } from './utils/embeddedSql';
 
 // Track documents that are being closed or saved
 let closingDocuments = new Set<string>();
 const savingDocuments = new Map<string, NodeJS.Timeout>();
-let changeDebounceTimer: NodeJS.Timeout | undefined;
+// Debounce timers of changed documents, keyed by document URI
+const changeDebounceTimers = new Map<string, NodeJS.Timeout>();
 const waitTimeUntilNextRunForOnChange = 10000; // 10 seconds for onChange event
 
 // This method is called when your extension is activated
 export function activate(context: vscode.ExtensionContext) {
-    console.log('Congratulations, your extension "bigquery-previewer" is now active!');
+    // Send log messages to the output channel before anything else logs
+    initializeOutputChannel();
+    logger.info('BigQuery Previewer extension activated');
 
     // Initialize services
+    initializeProfiles(context);
     initializeStatusBar();
+    updateControlStatusBar(getExtensionActiveState());
+    initializeDiagnostics();
+    initializeHistory(context);
+    initializeUsage(context);
     updateTrackingSettings();
 
     // Register commands with their handlers
@@ -36,6 +75,21 @@ export function activate(context: vscode.ExtensionContext) {
     const showOptionsCommand = vscode.commands.registerCommand('bigquery-previewer.showOptions', showOptionsHandler);
     const analyzeQueryCommand = vscode.commands.registerCommand('bigquery-previewer.analyzeQuery', analyzeQueryHandler);
     const settingsCommand = vscode.commands.registerCommand('bigquery-previewer.settings', settingsHandler);
+    const analyzeStatementCommand = vscode.commands.registerCommand('bigquery-previewer.analyzeStatement', analyzeStatementHandler);
+    const clearCacheCommand = vscode.commands.registerCommand('bigquery-previewer.clearCache', clearCacheHandler);
+    const copyTableNameCommand = vscode.commands.registerCommand('bigquery-previewer.copyTableName', copyTableNameHandler);
+    const reanalyzeReferencedTablesCommand = vscode.commands.registerCommand('bigquery-previewer.reanalyzeReferencedTables', reanalyzeReferencedTablesHandler);
+    const showOutputSchemaCommand = vscode.commands.registerCommand('bigquery-previewer.showOutputSchema', showOutputSchemaHandler);
+    const showHistoryCommand = vscode.commands.registerCommand('bigquery-previewer.showHistory', showHistoryHandler);
+    const switchProfileCommand = vscode.commands.registerCommand('bigquery-previewer.switchProfile', switchProfileHandler);
+    const analyzeWorkspaceCommand = vscode.commands.registerCommand('bigquery-previewer.analyzeWorkspace', analyzeWorkspaceHandler);
+    const showBatchReportCommand = vscode.commands.registerCommand('bigquery-previewer.showBatchReport', showBatchReportHandler);
+    const exportBatchReportCommand = vscode.commands.registerCommand('bigquery-previewer.exportBatchReport', exportBatchReportHandler);
+    const showLogCommand = vscode.commands.registerCommand('bigquery-previewer.showLog', showLogHandler);
+    const showUsageDashboardCommand = vscode.commands.registerCommand('bigquery-previewer.showUsageDashboard', showUsageDashboardHandler);
+    const refreshMetadataCommand = vscode.commands.registerCommand('bigquery-previewer.refreshMetadata', refreshMetadataHandler);
+    const compareWithHeadCommand = vscode.commands.registerCommand('bigquery-previewer.compareWithHead', compareWithHeadHandler);
+    const analyzeNotebookCommand = vscode.commands.registerCommand('bigquery-previewer.analyzeNotebook', analyzeNotebookHandler);
 
     // Register commands with context subscriptions for proper disposal
     context.subscriptions.push(
@@ -43,13 +97,97 @@ export function activate(context: vscode.ExtensionContext) {
         pauseExtensionCommand,
         showOptionsCommand,
         analyzeQueryCommand,
-        settingsCommand
+        settingsCommand,
+        analyzeStatementCommand,
+        clearCacheCommand,
+        copyTableNameCommand,
+        reanalyzeReferencedTablesCommand,
+        showOutputSchemaCommand,
+        showHistoryCommand,
+        switchProfileCommand,
+        analyzeWorkspaceCommand,
+        showBatchReportCommand,
+        exportBatchReportCommand,
+        showLogCommand,
+        showUsageDashboardCommand,
+        refreshMetadataCommand,
+        compareWithHeadCommand,
+        analyzeNotebookCommand
+    );
+
+    // Load repository budget policies and reload them when they change
+    context.subscriptions.push(initializePolicies(), onDidChangePolicies(refreshCodeLenses));
+
+    // Show the tables referenced by the last analyzed query in the Explorer
+    context.subscriptions.push(initializeReferencedTablesView());
+
+    // Show per-statement results above each statement and each SQL string of host files,
+    // output schemas over SELECT and table metadata over table names in SQL files
+    context.subscriptions.push(
+        vscode.languages.registerCodeLensProvider(
+            [{ language: 'sql' }, { pattern: '**/*.sql' }, ...embeddedSqlLanguages.map(language => ({ language }))],
+            statementCodeLensProvider
+        ),
+        vscode.languages.registerHoverProvider(
+            [{ language: 'sql' }, { pattern: '**/*.sql' }],
+            schemaHoverProvider
+        ),
+        vscode.languages.registerHoverProvider(
+            [{ language: 'sql' }, { pattern: '**/*.sql' }],
+            tableHoverProvider
+        )
+    );
+
+    // Suggest projects, datasets, tables and columns while typing in SQL files
+    context.subscriptions.push(
+        vscode.languages.registerCompletionItemProvider(
+            [{ language: 'sql' }, { pattern: '**/*.sql' }],
+            schemaCompletionProvider,
+            ...completionTriggerCharacters
+        )
+    );
+
+    // Show the dry run result below %%bigquery cells of notebooks, and analyze them when opened, edited or executed
+    context.subscriptions.push(
+        ...bigQueryNotebookTypes.map(notebookType =>
+            vscode.notebooks.registerNotebookCellStatusBarItemProvider(notebookType, bigQueryCellStatusBarProvider)),
+        vscode.workspace.onDidChangeNotebookDocument(event => handleNotebookChange(event, getExtensionActiveState())),
+        vscode.workspace.onDidOpenNotebookDocument(async notebook => {
+            if (getExtensionActiveState() && getConfiguration().autoRunOnOpen && isBigQueryNotebook(notebook)) {
+                await analyzeNotebook(notebook, 'open');
+            }
+        }),
+        vscode.workspace.onDidCloseNotebookDocument(closeNotebook)
+    );
+
+    // Pick up setting changes without requiring a reload
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('bigqueryPreviewer')) {
+                updateTrackingSettings();
+                refreshCodeLenses();
+                refreshCellStatusBar();
+                // The active profile may have been renamed or removed
+                updateControlStatusBar(getExtensionActiveState());
+            }
+        })
     );
 
     // Add selection change event listener
     context.subscriptions.push(
         vscode.window.onDidChangeTextEditorSelection(event => {
             handleSelectionChange(event.textEditor, getExtensionActiveState());
+            // Show the file's result again once the selection is cleared
+            if (event.textEditor === vscode.window.activeTextEditor && event.textEditor.selection.isEmpty) {
+                showEditorResult(event.textEditor, getExtensionActiveState());
+            }
+        })
+    );
+
+    // Show the result of the document in the active editor
+    context.subscriptions.push(
+        vscode.window.onDidChangeActiveTextEditor(editor => {
+            showEditorResult(editor, getExtensionActiveState());
         })
     );
 
@@ -82,6 +220,17 @@ export function activate(context: vscode.ExtensionContext) {
         
         // Clean up document from cache to prevent memory leaks
         removeDocumentFromCache(uri);
+        cancelDocumentAnalyses(uri);
+        clearEditorResults(uri);
+        resetErrorMessage(uri);
+        const changeTimer = changeDebounceTimers.get(uri);
+        if (changeTimer) {
+            clearTimeout(changeTimer);
+            changeDebounceTimers.delete(uri);
+        }
+        clearStatementResults(uri);
+        clearDiagnostics(document.uri);
+        clearReferencedTables(uri);
         
         // If this document was recently saved, it's likely a save-on-close operation
         if (savingDocuments.has(uri)) {
@@ -95,7 +244,7 @@ export function activate(context: vscode.ExtensionContext) {
             }
             savingDocuments.delete(uri);
             
-            console.log('Detected save-on-close for document:', uri);
+            logger.debug(`Detected save-on-close for document: ${uri}`);
             
             // Keep in the closing set a bit longer to catch any pending save operations
             setTimeout(() => {
@@ -111,7 +260,7 @@ export function activate(context: vscode.ExtensionContext) {
         // Skip analysis if this document is being closed or was recently in a save operation
         const documentUri = document.uri.toString();
         if (closingDocuments.has(documentUri) || savingDocuments.has(documentUri)) {
-            console.log('Skipping analysis for document being closed or in save-on-close operation:', documentUri);
+            logger.info(`Skipping analysis for document being closed or in save-on-close operation: ${documentUri}`);
             return;
         }
         
@@ -122,7 +271,7 @@ export function activate(context: vscode.ExtensionContext) {
             
             // Only analyze if we can find the editor (another indicator the file isn't being closed)
             if (editor) {
-                await analyzeQuery(document, editor);
+                await analyzeQuery(document, editor, undefined, 'save');
             }
         }
     }));
@@ -133,19 +282,22 @@ export function activate(context: vscode.ExtensionContext) {
         
         const config = getConfiguration();
         if (config.autoRunOnChange && isEligibleForAnalysis(event.document)) {
-            // Clear any existing timer to implement debouncing
-            if (changeDebounceTimer) {
-                clearTimeout(changeDebounceTimer);
+            const uri = event.document.uri.toString();
+
+            // Clear the document's existing timer to implement debouncing; other documents keep theirs
+            const existingTimer = changeDebounceTimers.get(uri);
+            if (existingTimer) {
+                clearTimeout(existingTimer);
             }
             
             // Set a new timer using the configured debounce delay
-            changeDebounceTimer = setTimeout(async () => {
-                // Get the editor for the changed document
-                const editor = vscode.window.visibleTextEditors.find(e => e.document.uri.toString() === event.document.uri.toString());
-                await analyzeQuery(event.document, editor, waitTimeUntilNextRunForOnChange);
+            changeDebounceTimers.set(uri, setTimeout(async () => {
                 // Clear the timer reference once executed
-                changeDebounceTimer = undefined;
-            }, config.changeDebounceDelayMs);
+                changeDebounceTimers.delete(uri);
+                // Get the editor for the changed document
+                const editor = vscode.window.visibleTextEditors.find(e => e.document.uri.toString() === uri);
+                await analyzeQuery(event.document, editor, waitTimeUntilNextRunForOnChange, 'change');
+            }, config.changeDebounceDelayMs));
         }
     }));
     
@@ -157,7 +309,7 @@ export function activate(context: vscode.ExtensionContext) {
         if (config.autoRunOnOpen && isEligibleForAnalysis(document)) {
             // Get the editor for the opened document
             const editor = vscode.window.visibleTextEditors.find(e => e.document.uri.toString() === document.uri.toString());
-            await analyzeQuery(document, editor);
+            await analyzeQuery(document, editor, undefined, 'open');
         }
     }));
 
@@ -168,11 +320,20 @@ export function activate(context: vscode.ExtensionContext) {
 export function deactivate() {
     // Dispose of UI components
     disposeStatusBar();
+    disposeCodeLens();
+    disposeDiagnostics();
+    disposeReferencedTablesView();
+    disposePolicies();
+    disposeUsageDashboard();
+    disposeUsage();
+    disposeCellStatusBar();
+    disposeNotebookAnalysis();
 
     // Clear any pending timers
-    if (changeDebounceTimer) {
-        clearTimeout(changeDebounceTimer);
-    }
+    changeDebounceTimers.forEach((timer) => {
+        clearTimeout(timer);
+    });
+    changeDebounceTimers.clear();
 
     // Clear all timeouts in savingDocuments Map
     savingDocuments.forEach((timer) => {
@@ -189,5 +350,6 @@ export function deactivate() {
     closingDocuments.clear();
     savingDocuments.clear();
     
-    console.log('BigQuery Previewer extension deactivated, all resources cleared.');
+    logger.info('BigQuery Previewer extension deactivated, all resources cleared.');
+    disposeOutputChannel();
 }
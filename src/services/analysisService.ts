@@ -1,29 +1,60 @@
 import * as vscode from 'vscode';
-import { performDryRun } from './bigQueryService';
+import { performDryRun, DryRunOptions, DryRunResult, getFullyQualifiedName, getTableMetadata, ReferencedTable } from './bigQueryService';
 import { getConfiguration } from './configurationService';
-import { updateStatusBar } from '../ui/statusBarManager';
-import { isEligibleForAnalysis, hasDocumentChanged } from '../utils/documentUtils';
-import { formatDataSize } from '../utils/formatters';
+import { getDryRunOptions } from './fileAnalysisService';
+import { getEffectiveBudget } from './policyService';
+import { formatErrorForLog, logger } from './logService';
+import { recordAnalysisTrigger } from './usageService';
+import { recordAnalysis } from './historyService';
+import { updateHeadDelta } from './compareService';
+import { ResultTarget, updateStatusBar } from '../ui/statusBarManager';
+import { setStatementResult, setStatementResults } from '../ui/codeLensManager';
+import { publishDiagnostics } from '../ui/diagnosticsManager';
+import { setReferencedTables } from '../ui/referencedTablesView';
+import { getDocumentStatements, getSqlSelection, isEligibleForAnalysis, isEmbeddedSqlHost, hasDocumentChanged } from '../utils/documentUtils';
+import { formatCost, formatDataSize } from '../utils/formatters';
+import { estimateCost, evaluateScan, formatScanDetails, formatScanSummary, ScanEvaluation, ScanThresholdOptions } from '../utils/costCalculator';
+import { describeBudgetRule } from '../utils/budgetPolicy';
+import { describeDestructiveStatement } from '../utils/statementSafety';
+import { SqlStatement } from '../utils/sqlSplitter';
+import { formatQueryContext } from '../utils/queryContext';
+import { formatHistoryDelta, getStatementScope, hashQuery } from '../utils/analysisHistory';
+import { CancellationFlag, createAnalysisQueue } from '../utils/analysisQueue';
+import { getPruningAdvice, PruningAdvice } from '../utils/pruningAdvisor';
+
+// Analyses are queued per document and statement so that only the latest request of each runs
+const analysisQueue = createAnalysisQueue(() => getConfiguration().maxConcurrentAnalyses);
+// Separates the document URI from the statement offset in the queue keys of statement analyses
+const statementKeySeparator = '#statement:';
 
 // Analysis state tracking
-let isRunning = false;
 let lastRunTime: number | null = null;
-let lastFullErrorMessage: string | null = null;
+// Full error message of the last analysis of each document, keyed by document URI
+const lastErrorMessages = new Map<string, string>();
+
+/**
+ * What caused an analysis, logged with each analysis request
+ */
+export type AnalysisTrigger = 'open' | 'save' | 'change' | 'selection' | 'command' | 'workspace' | 'execute';
 
 // Constants for timing
 const defaultWaitTimeUntilNextRun: number = 5000; // 5 seconds
 const waitTimeUntilNextRunForOnChange: number = 10000; // 10 seconds for onChange event
 
 /**
- * Analyzes a SQL query for BigQuery scanning impact
+ * Analyzes a SQL query for BigQuery scanning impact.
+ * The analysis is queued behind other analyses of the document and replaces any that has not finished yet.
  * @param document The document containing the query to analyze
  * @param editor Optional editor to analyze selection within document
  * @param waitTimeUntilNextRun Optional override for the minimum time between analyses
+ * @param trigger What caused the analysis, for the log
+ * @returns Promise that resolves when the analysis has finished or was superseded
  */
 export async function analyzeQuery(
     document: vscode.TextDocument, 
     editor?: vscode.TextEditor, 
-    waitTimeUntilNextRun?: number
+    waitTimeUntilNextRun?: number,
+    trigger: AnalysisTrigger = 'command'
 ): Promise<void> {
     // Guard clause to check if the document is available
     if (!document) {
@@ -31,11 +62,7 @@ export async function analyzeQuery(
         return;
     }
 
-    // Prevent concurrent execution - if an analysis is already running, skip this one
-    if (isRunning) {
-        console.log('Analysis already in progress, skipping.');
-        return;
-    }
+    logger.info(`Analysis of ${getDisplayName(document)} requested (trigger: ${trigger})`);
 
     const config = getConfiguration();
     const currentTime = Date.now();
@@ -44,131 +71,589 @@ export async function analyzeQuery(
     const isDocumentChanged = hasDocumentChanged(document);
 
     if (!waitTimeElapsed && !isDocumentChanged) {
-        console.log('Skipping analysis as wait time has not elapsed and document has not changed.');
+        logSkip(document, `wait time of ${waitTimeToUse} ms has not elapsed and document has not changed`);
         return;
     }
 
     if (!config.enableStatusBar && !config.enableNotifications) {
+        logSkip(document, 'status bar and notifications are disabled');
         vscode.window.showWarningMessage('Both status bar and notifications are disabled. Please enable at least one to receive feedback. Query analysis not performed.');
         return;
     }
 
-    // Mark as running to prevent concurrent execution
-    isRunning = true;
+    if (!isEligibleForAnalysis(document)) {
+        logSkip(document, 'not a SQL file and no embedded SQL found');
+        return;
+    }
+
+    recordAnalysisTrigger(trigger);
+    return analysisQueue.schedule(document.uri.toString(), flag => runQueryAnalysis(document, editor, flag));
+}
+
+/**
+ * Runs a queued analysis of a document or its selection
+ * @param document The document containing the query to analyze
+ * @param editor Optional editor to analyze selection within document
+ * @param flag Set when a newer analysis of the document supersedes this one
+ */
+async function runQueryAnalysis(document: vscode.TextDocument, editor: vscode.TextEditor | undefined, flag: CancellationFlag): Promise<void> {
+    const config = getConfiguration();
+
+    // Check if there's a selection in the editor
+    let query = document.getText();
+    let queryRange = new vscode.Range(document.positionAt(0), document.positionAt(query.length));
+    let isSelectionAnalysis = false;
     
-    try {
-        if (isEligibleForAnalysis(document)) {
-            if (config.enableStatusBar) {
-                updateStatusBar('Analyzing...', 
-                    new vscode.ThemeColor('statusBarItem.foreground'),
-                    new vscode.ThemeColor('statusBarItem.prominentBackground'));
-            } else {
-                vscode.window.showInformationMessage('Analyzing BigQuery SQL file...');
-            }
+    // If editor is provided and has a non-empty selection, use the selected text;
+    // in a host file only the part inside a SQL string, so host code is never dry run
+    const selectionRange = editor && getSqlSelection(document, editor.selection);
+    if (selectionRange) {
+        query = document.getText(selectionRange);
+        queryRange = selectionRange;
+        isSelectionAnalysis = true;
+    }
 
-            // Check if there's a selection in the editor
-            let query = document.getText();
-            let isSelectionAnalysis = false;
-            
-            // If editor is provided and has a non-empty selection, use the selected text
-            if (editor && !editor.selection.isEmpty) {
-                const selectedText = document.getText(editor.selection);
-                if (selectedText.trim().length > 0) {
-                    query = selectedText;
-                    isSelectionAnalysis = true;
-                }
-            }
+    // If the query is empty, skip analysis
+    if (query == null || query.trim().length === 0) {
+        logSkip(document, isSelectionAnalysis ? 'the selection is empty' : 'the file is empty');
+        return;
+    }
+
+    const target: ResultTarget = { uri: document.uri, scope: isSelectionAnalysis ? 'selection' : 'file' };
+    const startTime = Date.now();
+    if (config.enableStatusBar) {
+        updateStatusBar('Analyzing...', 
+            new vscode.ThemeColor('statusBarItem.foreground'),
+            new vscode.ThemeColor('statusBarItem.prominentBackground'),
+            undefined,
+            target);
+    } else {
+        vscode.window.showInformationMessage('Analyzing BigQuery SQL file...');
+    }
+
+    const dryRunOptions = getDocumentDryRunOptions(document);
+    // Each SQL string of a host file is a query of its own, whatever the statement setting
+    const isEmbedded = isEmbeddedSqlHost(document);
+
+    if (isSelectionAnalysis || (!config.analyzeStatementsSeparately && !isEmbedded)) {
+        const result = await performDryRun(query, dryRunOptions);
+        const advice = await findPruningAdvice(query, result, dryRunOptions);
+        // A newer analysis of the document reports instead
+        if (flag.isCancelled) {
+            logSkip(document, 'superseded by a newer analysis');
+            return;
+        }
+        publishDiagnostics(document, queryRange, [{ range: queryRange, errors: result.errors, advice }]);
+        setReferencedTables({ uri: document.uri, range: isSelectionAnalysis ? queryRange : undefined }, result.referencedTables);
+        // Selections are ad-hoc, so only whole-file results are kept in the history
+        const delta = isSelectionAnalysis ? undefined : recordHistory(document, 'file', query, [result]);
+        reportDryRunResult(document, result, isSelectionAnalysis ? '$(selection) Selection: ' : '', target, dryRunOptions, delta, advice);
+        if (!isSelectionAnalysis) {
+            reportHeadDelta(document, query, [result], flag);
+        }
+    } else {
+        const statements = getDocumentStatements(document, query);
+
+        // A file with only comments has nothing to analyze
+        if (statements.length === 0) {
+            logSkip(document, isEmbedded ? 'the file contains no embedded SQL' : 'the file contains no statements');
+            return;
+        }
 
-            // If the query is empty, skip analysis
-            if (query == null || query.trim().length === 0) {
-                console.log('No query to analyze. Skipping analysis.');
+        // Dry run each statement on its own so that every statement gets its own result
+        const results: DryRunResult[] = [];
+        for (const statement of statements) {
+            // Skip the remaining statements once a newer analysis of the document supersedes this one
+            if (flag.isCancelled) {
+                logSkip(document, `superseded by a newer analysis after ${results.length} of ${statements.length} statements`);
                 return;
             }
+            results.push(await performDryRun(statement.text, dryRunOptions));
+        }
+        const advice = await Promise.all(statements.map((statement, index) => findPruningAdvice(statement.text, results[index], dryRunOptions)));
+        if (flag.isCancelled) {
+            logSkip(document, 'superseded by a newer analysis');
+            return;
+        }
+        setStatementResults(
+            document.uri.toString(),
+            statements.map((statement, index): [string, DryRunResult] => [statement.text, results[index]])
+        );
+        publishDiagnostics(document, queryRange, statements.map((statement, index) => ({
+            range: new vscode.Range(document.positionAt(statement.startOffset), document.positionAt(statement.endOffset)),
+            errors: results[index].errors,
+            advice: advice[index]
+        })));
+        setReferencedTables({ uri: document.uri }, results.flatMap(result => result.referencedTables));
+        statements.forEach((statement, index) => recordHistory(document, getStatementScope(index), statement.text, [results[index]]));
+        const delta = recordHistory(document, 'file', query, results);
 
-            const { scannedBytes, errors } = await performDryRun(query);
-
-            if (errors.length > 0) {
-                lastFullErrorMessage = errors.join('; ');
-                const maxErrorLength = 50;
-                const truncatedError = lastFullErrorMessage.length > maxErrorLength ? 
-                    lastFullErrorMessage.substring(0, maxErrorLength) + '...' : 
-                    lastFullErrorMessage;
-
-                if (config.enableStatusBar) {
-                    updateStatusBar(`Error: ${truncatedError}`, 
-                        new vscode.ThemeColor('statusBarItem.errorForeground'),
-                        new vscode.ThemeColor('statusBarItem.errorBackground'),
-                        lastFullErrorMessage // Pass full message as tooltip
-                    );
-                } else {
-                    vscode.window.showErrorMessage(`Query analysis failed: ${lastFullErrorMessage}`);
-                }
-            } else {
-                // No errors, proceed with success or warning message
-                lastFullErrorMessage = null;
-                
-                const formattedScanSize = formatDataSize(scannedBytes);
-                
-                // Use MB for threshold comparison but display in appropriate unit
-                const mbThresholdInBytes = config.scanWarningThresholdMB * 1024 * 1024;
-
-                const selectionMsg = isSelectionAnalysis ? 'Selected text analysis' : 'Query analysis';
-                const selectionPrefix = isSelectionAnalysis ? '$(selection) Selection: ' : '';
-                
-                if (config.showScanWarnings && scannedBytes > mbThresholdInBytes) {
-                    const fullWarningMessage = `Estimated scan size: ${formattedScanSize} exceeds the threshold of ${formatDataSize(mbThresholdInBytes)}.`;
-                    // Make status bar more informative by including threshold information
-                    const shortWarningMessage = `${selectionPrefix}$(warning) Scan: ${formattedScanSize} (> ${formatDataSize(mbThresholdInBytes)})`;
-                    
-                    if (config.enableStatusBar) {
-                        updateStatusBar(
-                            shortWarningMessage, 
-                            new vscode.ThemeColor('statusBarItem.warningForeground'),
-                            new vscode.ThemeColor('statusBarItem.warningBackground'),
-                            fullWarningMessage // Pass full message as tooltip
-                        );
-                    } else {
-                        vscode.window.showWarningMessage(fullWarningMessage);
-                    }
-                } else {
-                    const fullSuccessMessage = `Estimated scan size: ${formattedScanSize}.`;
-                    const shortSuccessMessage = `${selectionPrefix}$(pass-filled) Scan: ${formattedScanSize}`;
-                    
-                    if (config.enableStatusBar) {
-                        // Use consistent updateStatusBar function with green text
-                        updateStatusBar(
-                            shortSuccessMessage, 
-                            new vscode.ThemeColor('bigqueryPreviewer.successForeground'),
-                            undefined, // No background color
-                            fullSuccessMessage // Pass full message as tooltip
-                        );
-                    } else {
-                        vscode.window.showInformationMessage(fullSuccessMessage);
-                    }
-                }
-            }
+        if (statements.length === 1) {
+            reportDryRunResult(document, results[0], '', target, dryRunOptions, delta, advice[0]);
+        } else {
+            reportStatementResults(document, statements, results, target, dryRunOptions, delta, advice);
+        }
+        reportHeadDelta(document, query, results, flag);
+    }
+
+    lastRunTime = Date.now();
+    logger.info(`Analysis of ${getDisplayName(document)}${isSelectionAnalysis ? ' (selection)' : ''} finished in ${lastRunTime - startTime} ms`);
+}
+
+/**
+ * Compares the scan of the whole file with its committed version in the background,
+ * so that the dry runs of the committed version do not delay the result
+ * @param document The analyzed document
+ * @param query The analyzed text of the file
+ * @param results The dry run results of the file
+ * @param flag Set when a newer analysis of the document supersedes this one
+ */
+function reportHeadDelta(document: vscode.TextDocument, query: string, results: DryRunResult[], flag: CancellationFlag): void {
+    updateHeadDelta(document, query, results, flag).catch(error => {
+        logger.error(`Comparison of ${getDisplayName(document)} with HEAD failed: ${formatErrorForLog(error)}`);
+    });
+}
+
+/**
+ * Gets the dry run options of a document from its header declarations and the settings
+ * @param document The analyzed document
+ * @returns The dry run options, with the document as the source of the usage statistics
+ */
+function getDocumentDryRunOptions(document: vscode.TextDocument): DryRunOptions {
+    // Host files have no SQL header, so their embedded queries use the settings
+    const header = isEmbeddedSqlHost(document) ? '' : document.getText();
+    return { ...getDryRunOptions(header), source: getDisplayName(document) };
+}
+
+/**
+ * Gets the name of a document for the log
+ * @param document The document
+ * @returns The path relative to the workspace folder
+ */
+function getDisplayName(document: vscode.TextDocument): string {
+    return vscode.workspace.asRelativePath(document.uri);
+}
+
+/**
+ * Logs why an analysis was not performed or not reported
+ * @param document The document of the analysis
+ * @param reason The reason
+ */
+function logSkip(document: vscode.TextDocument, reason: string): void {
+    logger.info(`Analysis of ${getDisplayName(document)} skipped: ${reason}`);
+}
+
+/**
+ * Analyzes a single statement of a document, e.g. when its CodeLens is clicked.
+ * The analysis replaces any analysis of the same statement that has not finished yet.
+ * @param document The document containing the statement
+ * @param range The range of the statement within the document
+ * @returns Promise that resolves when the analysis has finished or was superseded
+ */
+export async function analyzeStatement(document: vscode.TextDocument, range: vscode.Range): Promise<void> {
+    logger.info(`Analysis of ${getDisplayName(document)} line ${range.start.line + 1} requested (trigger: command)`);
+
+    const config = getConfiguration();
+    if (!config.enableStatusBar && !config.enableNotifications && !config.enableCodeLens) {
+        logSkip(document, 'status bar, notifications and CodeLens are disabled');
+        vscode.window.showWarningMessage('Status bar, notifications and CodeLens are disabled. Please enable at least one to receive feedback. Query analysis not performed.');
+        return;
+    }
+
+    if (document.getText(range).trim().length === 0) {
+        logSkip(document, 'the statement is empty');
+        return;
+    }
+
+    const key = `${document.uri.toString()}${statementKeySeparator}${document.offsetAt(range.start)}`;
+    // A single statement is part of the file like a selection, so it does not replace the file's result
+    const target: ResultTarget = { uri: document.uri, scope: 'selection' };
+    recordAnalysisTrigger('command');
+    return analysisQueue.schedule(key, async flag => {
+        if (config.enableStatusBar) {
+            updateStatusBar('Analyzing...', 
+                new vscode.ThemeColor('statusBarItem.foreground'),
+                new vscode.ThemeColor('statusBarItem.prominentBackground'),
+                undefined,
+                target);
+        }
+
+        const query = document.getText(range);
+        const dryRunOptions = getDocumentDryRunOptions(document);
+        const result = await performDryRun(query, dryRunOptions);
+        const advice = await findPruningAdvice(query, result, dryRunOptions);
+        if (flag.isCancelled) {
+            logSkip(document, 'superseded by a newer analysis of the statement');
+            return;
         }
+        setStatementResult(document.uri.toString(), query, result);
+        publishDiagnostics(document, range, [{ range, errors: result.errors, advice }]);
+        setReferencedTables({ uri: document.uri, range }, result.referencedTables);
+        const statementIndex = getDocumentStatements(document)
+            .findIndex(statement => statement.startOffset === document.offsetAt(range.start));
+        const delta = statementIndex < 0 ? undefined : recordHistory(document, getStatementScope(statementIndex), query, [result]);
+        reportDryRunResult(document, result, `$(list-flat) Line ${range.start.line + 1}: `, target, dryRunOptions, delta, advice);
 
         lastRunTime = Date.now();
-    } finally {
-        // Always reset running state even if an error occurs
-        isRunning = false;
+    });
+}
+
+/**
+ * Cancels the queued and running analyses of a document, e.g. when it is closed
+ * @param uri The URI of the document
+ */
+export function cancelDocumentAnalyses(uri: string): void {
+    analysisQueue.cancel(key => key === uri || key.startsWith(`${uri}${statementKeySeparator}`));
+}
+
+/**
+ * Looks up the partitioning and clustering of the tables a query reads and checks that the query filters on them
+ * @param query The analyzed query text
+ * @param result The dry run result of the query
+ * @param options The options the dry run was performed with
+ * @returns Advice for each column without a filter; empty if the advice is disabled or the dry run failed
+ */
+async function findPruningAdvice(query: string, result: DryRunResult, options: DryRunOptions): Promise<PruningAdvice[]> {
+    const config = getConfiguration();
+    if (!config.pruningAdvice || result.errors.length > 0 || result.referencedTables.length === 0) {
+        return [];
+    }
+
+    const tables = new Map<string, ReferencedTable>();
+    result.referencedTables.forEach(table => tables.set(getFullyQualifiedName(table), table));
+    const described = await Promise.all([...tables.values()].map(async table => ({
+        tableId: table.tableId,
+        metadata: await getTableMetadata(table, options.context)
+    })));
+    // Tables whose metadata could not be read are skipped rather than failing the analysis
+    return getPruningAdvice(query, described.flatMap(({ tableId, metadata }) => metadata ? [{ tableId, metadata }] : []));
+}
+
+/**
+ * Records a successful analysis in the history of its document
+ * @param document The analyzed document
+ * @param scope 'file' for the whole file, or the scope of a statement
+ * @param query The analyzed query text
+ * @param results The dry run results that make up the analysis
+ * @returns The change in scan size since the previous analysis, or undefined if there is none or a dry run failed
+ */
+function recordHistory(document: vscode.TextDocument, scope: string, query: string, results: DryRunResult[]): string | undefined {
+    if (results.some(result => result.errors.length > 0)) {
+        return undefined;
+    }
+
+    const config = getConfiguration();
+    const bytes = results.reduce((total, result) => total + result.scannedBytes, 0);
+    const cost = results.reduce((total, result) => total + estimateCost(result.scannedBytes, result.referencedTables.length, config), 0);
+    const previous = recordAnalysis(document.uri, scope, { timestamp: Date.now(), bytes, cost, queryHash: hashQuery(query) });
+    return previous && formatHistoryDelta(bytes, previous);
+}
+
+/**
+ * Shows the result of a single dry run in the status bar or as a notification
+ * @param document The analyzed document, whose budget rule sets the thresholds
+ * @param result The dry run result to report
+ * @param prefix Prefix for the status bar text describing what was analyzed
+ * @param target The document and scope the status bar result is stored for
+ * @param options The options the dry run was performed with
+ * @param delta Optional change in scan size since the previous analysis
+ * @param advice Partitioning and clustering columns the query does not filter on
+ */
+function reportDryRunResult(
+    document: vscode.TextDocument,
+    result: DryRunResult,
+    prefix: string,
+    target: ResultTarget,
+    options: DryRunOptions,
+    delta?: string,
+    advice: PruningAdvice[] = []
+): void {
+    const { config, rule } = getEffectiveBudget(document.uri);
+    const { scannedBytes, errors } = result;
+
+    if (errors.length > 0) {
+        const fullErrorMessage = errors.join('; ');
+        lastErrorMessages.set(document.uri.toString(), fullErrorMessage);
+        const maxErrorLength = 50;
+        const truncatedError = fullErrorMessage.length > maxErrorLength ? 
+            fullErrorMessage.substring(0, maxErrorLength) + '...' : 
+            fullErrorMessage;
+
+        if (config.enableStatusBar) {
+            updateStatusBar(`${prefix}Error: ${truncatedError}`, 
+                new vscode.ThemeColor('statusBarItem.errorForeground'),
+                new vscode.ThemeColor('statusBarItem.errorBackground'),
+                withContext(fullErrorMessage, options), // Pass full message as tooltip
+                target
+            );
+        } else if (config.enableNotifications) {
+            vscode.window.showErrorMessage(`Query analysis failed: ${fullErrorMessage}`);
+        }
+        return;
+    }
+
+    // No errors, proceed with success or warning message
+    lastErrorMessages.delete(document.uri.toString());
+
+    const cost = estimateCost(scannedBytes, result.referencedTables.length, config);
+    const evaluation = evaluateScan(scannedBytes, cost, config);
+    const destructiveWarning = getDestructiveWarning(result);
+    let fullMessage = formatScanDetails(evaluation, config);
+    if (result.statementType) {
+        fullMessage = `Statement type: ${result.statementType}\n${fullMessage}`;
+    }
+    if (destructiveWarning) {
+        fullMessage = `${destructiveWarning}\n${fullMessage}`;
+    }
+    if (advice.length > 0) {
+        fullMessage += `\n${advice.map(item => `${item.message}.`).join('\n')}`;
+    }
+    if (result.cachedAt) {
+        fullMessage += `\nCached result from ${new Date(result.cachedAt).toLocaleTimeString()}.`;
+    }
+    if (delta) {
+        fullMessage += `\nChange since the previous analysis: ${delta}.`;
+    }
+    if (rule) {
+        fullMessage += `\n${describeBudgetRule(rule, config.currency)}.`;
+    }
+    showScanResult({
+        target,
+        evaluation,
+        thresholds: config,
+        prefix,
+        label: result.statementType,
+        suffix: delta ? ` · ${delta}` : '',
+        fullMessage: withContext(fullMessage, options),
+        destructiveWarning
+    });
+}
+
+/**
+ * Shows the combined result of a per-statement analysis in the status bar or as a notification
+ * @param document The analyzed document
+ * @param statements The statements that were analyzed
+ * @param results The dry run result of each statement, in the same order
+ * @param target The document and scope the status bar result is stored for
+ * @param options The options the dry runs were performed with
+ * @param delta Optional change in total scan size since the previous analysis
+ * @param advice Partitioning and clustering columns each statement does not filter on, in the same order
+ */
+function reportStatementResults(
+    document: vscode.TextDocument,
+    statements: SqlStatement[],
+    results: DryRunResult[],
+    target: ResultTarget,
+    options: DryRunOptions,
+    delta?: string,
+    advice: PruningAdvice[][] = []
+): void {
+    const { config, rule } = getEffectiveBudget(document.uri);
+    const totalBytes = results.reduce((total, result) => total + result.scannedBytes, 0);
+    const failedCount = results.filter(result => result.errors.length > 0).length;
+
+    // One line per statement for the tooltip and notifications
+    const breakdown = statements.map((statement, index) => {
+        const line = document.positionAt(statement.startOffset).line + 1;
+        const result = results[index];
+        let outcome: string;
+        if (result.errors.length > 0) {
+            outcome = `Error: ${result.errors.join('; ')}`;
+        } else if (config.showCost) {
+            const cost = estimateCost(result.scannedBytes, result.referencedTables.length, config);
+            outcome = `${formatDataSize(result.scannedBytes)} (${formatCost(cost, config.currency)})`;
+        } else {
+            outcome = formatDataSize(result.scannedBytes);
+        }
+        const statementType = result.statementType ? `, ${result.statementType}` : '';
+        const destructive = getDestructiveWarning(result) ? ' $(flame)' : '';
+        return `Statement ${index + 1} (line ${line}${statementType}): ${outcome}${destructive}${result.cachedAt ? ' (cached)' : ''}`;
+    }).join('\n');
+
+    if (failedCount > 0) {
+        lastErrorMessages.set(document.uri.toString(), breakdown);
+        const shortErrorMessage = `$(error) Errors in ${failedCount} of ${statements.length} statements`;
+
+        if (config.enableStatusBar) {
+            updateStatusBar(shortErrorMessage,
+                new vscode.ThemeColor('statusBarItem.errorForeground'),
+                new vscode.ThemeColor('statusBarItem.errorBackground'),
+                withContext(breakdown, options),
+                target
+            );
+        } else if (config.enableNotifications) {
+            vscode.window.showErrorMessage(`Query analysis failed for ${failedCount} of ${statements.length} statements:\n${breakdown}`);
+        }
+        return;
+    }
+
+    lastErrorMessages.delete(document.uri.toString());
+
+    const totalCost = results.reduce((total, result) => total + estimateCost(result.scannedBytes, result.referencedTables.length, config), 0);
+    const evaluation = evaluateScan(totalBytes, totalCost, config);
+    const cachedCount = results.filter(result => result.cachedAt).length;
+    const destructiveWarnings = results
+        .map((result, index) => {
+            const warning = getDestructiveWarning(result);
+            return warning && `Statement ${index + 1}: ${warning}`;
+        })
+        .filter((warning): warning is string => !!warning);
+    let fullMessage = `Total for ${statements.length} statements:\n${formatScanDetails(evaluation, config)}`;
+    if (destructiveWarnings.length > 0) {
+        fullMessage = `${destructiveWarnings.join('\n')}\n\n${fullMessage}`;
+    }
+    const adviceLines = advice.flatMap((items, index) => items.map(item => `Statement ${index + 1}: ${item.message}.`));
+    if (adviceLines.length > 0) {
+        fullMessage += `\n${adviceLines.join('\n')}`;
+    }
+    if (cachedCount > 0) {
+        fullMessage += `\n${cachedCount} of ${statements.length} results served from cache.`;
+    }
+    if (delta) {
+        fullMessage += `\nChange since the previous analysis: ${delta}.`;
+    }
+    if (rule) {
+        fullMessage += `\n${describeBudgetRule(rule, config.currency)}.`;
+    }
+    showScanResult({
+        target,
+        evaluation,
+        thresholds: config,
+        prefix: '',
+        label: destructiveWarnings.length > 0 ? `${destructiveWarnings.length} destructive` : undefined,
+        suffix: ` in ${statements.length} statements${delta ? ` · ${delta}` : ''}`,
+        fullMessage: withContext(`${fullMessage}\n\n${breakdown}`, options),
+        destructiveWarning: destructiveWarnings.length > 0 ? destructiveWarnings.join('\n') : undefined
+    });
+}
+
+/**
+ * Appends the effective project, location and dataset to a tooltip
+ * @param message The tooltip message
+ * @param options The options the dry run was performed with
+ * @returns The message followed by the query context
+ */
+function withContext(message: string, options: DryRunOptions): string {
+    return options.context ? `${message}\n\n${formatQueryContext(options.context)}` : message;
+}
+
+/**
+ * Gets the destructive statement warning of a result, if that kind of warning is enabled
+ * @param result The dry run result
+ * @returns The warning text, or undefined if the statement is not destructive or the warning is disabled
+ */
+function getDestructiveWarning(result: DryRunResult): string | undefined {
+    const config = getConfiguration();
+    if (!result.destructiveKind || !result.statementType || !config.destructiveStatementWarnings.includes(result.destructiveKind)) {
+        return undefined;
+    }
+    return describeDestructiveStatement(result.destructiveKind, result.statementType);
+}
+
+/**
+ * A successful scan to show in the status bar or as a notification
+ */
+interface ScanReport {
+    /** The document and scope the status bar result is stored for */
+    target: ResultTarget;
+    evaluation: ScanEvaluation;
+    /** The thresholds the scan was evaluated with */
+    thresholds: ScanThresholdOptions;
+    /** Prefix for the status bar text describing what was analyzed */
+    prefix: string;
+    /** Optional label shown before the scan summary, e.g. the statement type */
+    label?: string;
+    /** Suffix for the status bar text */
+    suffix: string;
+    /** Full message used as tooltip or notification text */
+    fullMessage: string;
+    /** Set when the analyzed query contains a destructive statement */
+    destructiveWarning?: string;
+}
+
+/**
+ * Shows a successful scan in the status bar or as a notification. Destructive statements and scans
+ * over a budget limit use distinct states, and the warning state is used when the scan size or cost
+ * exceeds its threshold.
+ * @param report The scan to show
+ */
+function showScanResult(report: ScanReport): void {
+    const config = getConfiguration();
+    const { target, evaluation, thresholds, prefix, suffix, fullMessage } = report;
+    const scanSummary = formatScanSummary(evaluation, thresholds);
+    const summary = report.label ? `${report.label} · ${scanSummary}` : scanSummary;
+
+    if (report.destructiveWarning) {
+        if (config.enableStatusBar) {
+            updateStatusBar(
+                `${prefix}$(flame) ${summary}${suffix}`,
+                new vscode.ThemeColor('statusBarItem.errorForeground'),
+                new vscode.ThemeColor('statusBarItem.errorBackground'),
+                fullMessage, // Pass full message as tooltip
+                target
+            );
+        } else if (config.enableNotifications) {
+            vscode.window.showWarningMessage(fullMessage);
+        }
+    } else if (evaluation.exceedsErrorThreshold) {
+        if (config.enableStatusBar) {
+            updateStatusBar(
+                `${prefix}$(error) ${summary}${suffix}`,
+                new vscode.ThemeColor('statusBarItem.errorForeground'),
+                new vscode.ThemeColor('statusBarItem.errorBackground'),
+                fullMessage, // Pass full message as tooltip
+                target
+            );
+        } else if (config.enableNotifications) {
+            vscode.window.showErrorMessage(fullMessage);
+        }
+    } else if (evaluation.exceedsBytesThreshold || evaluation.exceedsCostThreshold) {
+        if (config.enableStatusBar) {
+            updateStatusBar(
+                `${prefix}$(warning) ${summary}${suffix}`,
+                new vscode.ThemeColor('statusBarItem.warningForeground'),
+                new vscode.ThemeColor('statusBarItem.warningBackground'),
+                fullMessage, // Pass full message as tooltip
+                target
+            );
+        } else if (config.enableNotifications) {
+            vscode.window.showWarningMessage(fullMessage);
+        }
+    } else {
+        if (config.enableStatusBar) {
+            // Use consistent updateStatusBar function with green text
+            updateStatusBar(
+                `${prefix}$(pass-filled) ${summary}${suffix}`,
+                new vscode.ThemeColor('bigqueryPreviewer.successForeground'),
+                undefined, // No background color
+                fullMessage, // Pass full message as tooltip
+                target
+            );
+        } else if (config.enableNotifications) {
+            vscode.window.showInformationMessage(fullMessage);
+        }
     }
 }
 
 /**
- * Gets the last error message from query analysis
+ * Gets the last error message from the analysis of the document in the active editor
  * @returns The last error message or null if no errors
  */
 export function getLastErrorMessage(): string | null {
-    return lastFullErrorMessage;
+    const uri = vscode.window.activeTextEditor?.document.uri.toString();
+    return (uri && lastErrorMessages.get(uri)) || null;
 }
 
 /**
  * Resets the error message state 
+ * @param uri Optional URI of the document whose error is reset; all errors are reset otherwise
  */
-export function resetErrorMessage(): void {
-    lastFullErrorMessage = null;
+export function resetErrorMessage(uri?: string): void {
+    if (uri) {
+        lastErrorMessages.delete(uri);
+    } else {
+        lastErrorMessages.clear();
+    }
 }
 
 /**
@@ -184,6 +669,6 @@ export function getLastRunTime(): number | null {
  */
 export function resetAnalysisState(): void {
     lastRunTime = null;
-    lastFullErrorMessage = null;
-    isRunning = false;
+    lastErrorMessages.clear();
+    analysisQueue.cancel(() => true);
 }
\ No newline at end of file
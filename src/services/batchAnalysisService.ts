@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import { getConfiguration } from './configurationService';
+import { analyzeSqlFile } from './fileAnalysisService';
+import { recordAnalysisTrigger } from './usageService';
+import { BatchFileResult, formatBatchSummary } from '../utils/batchReport';
+import { mapWithConcurrency } from '../utils/concurrency';
+
+/**
+ * The outcome of a workspace analysis
+ */
+export interface BatchReport {
+    results: BatchFileResult[];
+    /** Number of files that matched the include and exclude globs */
+    totalFiles: number;
+    cancelled: boolean;
+    finishedAt: number;
+}
+
+let lastReport: BatchReport | undefined;
+
+/**
+ * Dry runs every SQL file of the workspace that matches the batch include and exclude globs,
+ * showing a cancellable progress notification
+ * @returns The report of the analysis, or undefined if no files matched
+ */
+export async function analyzeWorkspace(): Promise<BatchReport | undefined> {
+    const config = getConfiguration();
+    // An empty exclude glob still applies the files.exclude setting
+    const files = await vscode.workspace.findFiles(config.batchInclude, config.batchExclude || undefined);
+    if (files.length === 0) {
+        vscode.window.showInformationMessage(`No files in the workspace match ${config.batchInclude}.`);
+        return undefined;
+    }
+
+    return vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'BigQuery Previewer: Analyzing workspace',
+        cancellable: true
+    }, async (progress, token) => {
+        let completedCount = 0;
+
+        const results = await mapWithConcurrency(files, config.batchConcurrency, async uri => {
+            const result = await analyzeFile(uri);
+            completedCount++;
+            progress.report({ increment: 100 / files.length, message: `${completedCount}/${files.length} ${result.file}` });
+            return result;
+        }, () => token.isCancellationRequested);
+
+        lastReport = {
+            results: results.filter((result): result is BatchFileResult => !!result),
+            totalFiles: files.length,
+            cancelled: token.isCancellationRequested,
+            finishedAt: Date.now()
+        };
+        return lastReport;
+    });
+}
+
+/**
+ * Dry runs a single file of a workspace analysis
+ * @param uri The URI of the file
+ * @returns The combined result of the statements of the file
+ */
+async function analyzeFile(uri: vscode.Uri): Promise<BatchFileResult> {
+    const file = vscode.workspace.asRelativePath(uri);
+    recordAnalysisTrigger('workspace');
+
+    // Read the file from disk instead of opening it, which would trigger analysis on open
+    let text: string;
+    try {
+        text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    } catch (error: any) {
+        return { file, statements: 0, bytes: 0, cost: 0, tables: [], statementTypes: [], errors: [`Could not read file: ${error.message}`] };
+    }
+
+    return analyzeSqlFile(file, text);
+}
+
+/**
+ * Gets the report of the last workspace analysis
+ * @returns The last report, or undefined if the workspace has not been analyzed
+ */
+export function getLastBatchReport(): BatchReport | undefined {
+    return lastReport;
+}
+
+/**
+ * Summarizes a workspace analysis for notifications
+ * @param report The report of the analysis
+ * @returns A summary such as "12 files · 3.5 GB · $0.02", noting if the analysis was cancelled
+ */
+export function formatBatchReportSummary(report: BatchReport): string {
+    const summary = formatBatchSummary(report.results, getConfiguration().currency);
+    return report.cancelled ? `${summary} (cancelled after ${report.results.length} of ${report.totalFiles} files)` : summary;
+}
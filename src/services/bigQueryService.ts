@@ -1,17 +1,92 @@
-import { BigQuery } from '@google-cloud/bigquery';
+import * as fs from 'fs';
+import { BigQuery, Query } from '@google-cloud/bigquery';
+import { ExternalAccountClientOptions, GoogleAuth, Impersonated } from 'google-auth-library';
 import { getConfiguration } from './configurationService';
+import { formatErrorForLog, logger } from './logService';
+import { describeCredentialError, parseExternalAccountConfig, validateAuthSettings } from '../utils/authSettings';
+import { bindParameters, ParameterBindings, QueryParameter } from '../utils/queryParameters';
+import { formatErrorLocation } from '../utils/errorParser';
+import { formatDataSize } from '../utils/formatters';
+import { getDefaultDatasetReference, getJobProjectId, QueryContext } from '../utils/queryContext';
+import { SchemaField } from '../utils/schemaFormatter';
+import { DestructiveKind, getDestructiveKind } from '../utils/statementSafety';
+import { parseTableMetadata, TableMetadata } from '../utils/tableMetadata';
 
 // Dry run tracking
 let dryRunCount: number = 0;
 let lastDryRunTime: number | null = null;
 let isDryRunTrackingEnabled: boolean = false;
 
+// Dry run result cache, in least recently used order
+const dryRunCache = new Map<string, { result: DryRunResult; timestamp: number }>();
+let cacheHitCount: number = 0;
+
+// Table metadata cache; metadata changes rarely, so entries are kept for a few minutes
+const tableMetadataCache = new Map<string, { metadata: TableMetadata; timestamp: number }>();
+const tableMetadataTtlMs = 5 * 60 * 1000;
+
+// OAuth scope requested for impersonated credentials
+const cloudPlatformScope = 'https://www.googleapis.com/auth/cloud-platform';
+// Lifetime of impersonated access tokens in seconds
+const impersonationTokenLifetime = 3600;
+
+/**
+ * A table referenced by a query
+ */
+export interface ReferencedTable {
+    projectId: string;
+    datasetId: string;
+    tableId: string;
+}
+
 /**
  * Result of a BigQuery dry run operation
  */
 export interface DryRunResult {
     scannedBytes: number;
+    referencedTables: ReferencedTable[];
+    /** Schema of the query result; empty for statements without a result set */
+    schema: SchemaField[];
+    /** Statement type reported by the dry run, e.g. SELECT, MERGE or DROP_TABLE */
+    statementType?: string;
+    /** Set when the statement can destroy data */
+    destructiveKind?: DestructiveKind;
     errors: string[];
+    /** Time the result was originally fetched, set when it was served from the cache */
+    cachedAt?: number;
+}
+
+/**
+ * Options for a dry run
+ */
+export interface DryRunOptions {
+    /** Declared query parameters; only those referenced by the query are sent */
+    parameters?: QueryParameter[];
+    /** Project, location and default dataset to run the query against */
+    context?: QueryContext;
+    /** Name of the file the query comes from, passed on to the dry run listener */
+    source?: string;
+}
+
+/**
+ * A finished dry run, passed to the dry run listener
+ */
+export interface DryRunEvent {
+    /** Name of the file the query comes from, if known */
+    source?: string;
+    result: DryRunResult;
+    /** True if the result was served from the cache */
+    cached: boolean;
+}
+
+let dryRunListener: ((event: DryRunEvent) => void) | undefined;
+
+/**
+ * Sets the function called after each dry run, e.g. to collect usage statistics
+ * @param listener The listener, or undefined to remove it
+ */
+export function setDryRunListener(listener: ((event: DryRunEvent) => void) | undefined): void {
+    dryRunListener = listener;
 }
 
 /**
@@ -22,30 +97,195 @@ export function updateTrackingSettings(): void {
     isDryRunTrackingEnabled = config.trackDryRuns;
 }
 
+/**
+ * Builds the fully qualified name of a table
+ * @param table The table reference
+ * @returns The name as project.dataset.table
+ */
+export function getFullyQualifiedName(table: ReferencedTable): string {
+    return `${table.projectId}.${table.datasetId}.${table.tableId}`;
+}
+
 /**
  * Initialize a BigQuery client based on the current configuration
+ * @param context Optional project and location for the client; the credentials' project is used otherwise
  * @returns Promise with a configured BigQuery client
+ * @throws Error if the settings of the auth mode are incomplete or its credentials cannot be loaded
  */
-export async function initializeBigQueryClient(): Promise<BigQuery> {
+export async function initializeBigQueryClient(context?: QueryContext): Promise<BigQuery> {
     const config = getConfiguration();
+    const projectId = context ? getJobProjectId(context) : undefined;
+    const location = context?.location || undefined;
+
+    const settingsError = validateAuthSettings(config);
+    if (settingsError) {
+        throw new Error(settingsError);
+    }
 
     if (config.authMode === 'service_account' && config.serviceAccountKeyPath) {
         return new BigQuery({
-            keyFilename: config.serviceAccountKeyPath
+            keyFilename: config.serviceAccountKeyPath,
+            projectId,
+            location
         });
     }
 
+    if (config.authMode === 'impersonation') {
+        // Application Default Credentials are the source that requests tokens for the target account
+        const sourceClient = await new GoogleAuth({ scopes: [cloudPlatformScope] }).getClient();
+        const authClient = new Impersonated({
+            sourceClient,
+            targetPrincipal: config.impersonateServiceAccount.trim(),
+            targetScopes: [cloudPlatformScope],
+            lifetime: impersonationTokenLifetime,
+            delegates: []
+        });
+        return new BigQuery({ authClient, projectId, location });
+    }
+
+    if (config.authMode === 'external_account') {
+        const credentialsPath = config.externalAccountCredentialsPath.trim();
+        let text: string;
+        try {
+            text = await fs.promises.readFile(credentialsPath, 'utf8');
+        } catch (error: any) {
+            throw new Error(`Could not read the credential configuration file ${credentialsPath}: ${error.message}`);
+        }
+        let credentials: ExternalAccountClientOptions;
+        try {
+            credentials = parseExternalAccountConfig(text) as unknown as ExternalAccountClientOptions;
+        } catch (error: any) {
+            throw new Error(`Invalid credential configuration file ${credentialsPath}: ${error.message}`);
+        }
+        return new BigQuery({ credentials, projectId, location });
+    }
+
     // Default to ADC if no service account is configured
-    return new BigQuery();
+    return new BigQuery({ projectId, location });
+}
+
+/**
+ * Normalizes a query for use as a cache key.
+ * Only line endings and trailing whitespace are normalized so that error positions stay valid.
+ * @param query The SQL query
+ * @returns The normalized query
+ */
+export function normalizeQueryForCache(query: string): string {
+    return query.replace(/\r\n/g, '\n').replace(/[ \t]+$/gm, '').trimEnd();
+}
+
+/**
+ * Builds the cache key for a dry run from the query and the settings that affect its result
+ * @param query The SQL query
+ * @param bindings The query parameters sent with the query
+ * @param context The project, location and default dataset of the query
+ * @returns The cache key
+ */
+function getCacheKey(query: string, bindings: ParameterBindings, context?: QueryContext): string {
+    const config = getConfiguration();
+    // The credentials determine the default project the query runs in
+    return JSON.stringify([
+        normalizeQueryForCache(query),
+        config.authMode,
+        config.serviceAccountKeyPath,
+        config.impersonateServiceAccount,
+        config.externalAccountCredentialsPath,
+        bindings.params ?? null,
+        bindings.types ?? null,
+        context ?? null
+    ]);
+}
+
+/**
+ * Looks up a dry run result in the cache, evicting it if it has expired
+ * @param key The cache key
+ * @returns A copy of the cached result, or undefined on a cache miss
+ */
+function getCachedResult(key: string): DryRunResult | undefined {
+    const config = getConfiguration();
+    const entry = dryRunCache.get(key);
+    if (!entry) {
+        return undefined;
+    }
+
+    dryRunCache.delete(key);
+    if (Date.now() - entry.timestamp > config.cacheTtlSeconds * 1000) {
+        return undefined;
+    }
+
+    // Re-insert to mark the entry as most recently used
+    dryRunCache.set(key, entry);
+    return { ...entry.result, cachedAt: entry.timestamp };
+}
+
+/**
+ * Stores a dry run result in the cache, evicting the least recently used entries beyond the size limit
+ * @param key The cache key
+ * @param result The dry run result
+ */
+function setCachedResult(key: string, result: DryRunResult): void {
+    const config = getConfiguration();
+    dryRunCache.delete(key);
+    dryRunCache.set(key, { result, timestamp: Date.now() });
+
+    while (dryRunCache.size > config.cacheMaxEntries) {
+        const oldestKey = dryRunCache.keys().next().value;
+        if (oldestKey === undefined) {
+            break;
+        }
+        dryRunCache.delete(oldestKey);
+    }
 }
 
 /**
  * Perform a dry run of a BigQuery query
+ * Results are served from the cache when the same query was analyzed within the cache TTL
  * @param query The SQL query to analyze
+ * @param options Optional query parameters and context
  * @returns Promise with scan size and any errors
  */
-export async function performDryRun(query: string): Promise<DryRunResult> {
-    const bigquery = await initializeBigQueryClient();
+export async function performDryRun(query: string, options: DryRunOptions = {}): Promise<DryRunResult> {
+    const config = getConfiguration();
+    const { parameters = [], context, source } = options;
+    const bindings = bindParameters(query, parameters);
+
+    // Report undeclared parameters without calling the API, which would only fail on the first one
+    if (bindings.undeclared.length > 0) {
+        const errors = bindings.undeclared.map(usage => usage.name ?
+            `Query parameter @${usage.name} is not declared. Declare it with a "-- @param ${usage.name} TYPE value" header comment or the bigqueryPreviewer.queryParameters setting ${formatErrorLocation(query, usage.offset)}` :
+            `Positional query parameter ? is not declared. Declare it with a "-- @param ? TYPE value" header comment or the bigqueryPreviewer.queryParameters setting ${formatErrorLocation(query, usage.offset)}`);
+        logger.info(`Dry run skipped: ${errors.length} undeclared query parameter(s)`);
+        return { scannedBytes: 0, referencedTables: [], schema: [], errors };
+    }
+
+    const isCacheEnabled = config.cacheTtlSeconds > 0 && config.cacheMaxEntries > 0;
+    const cacheKey = getCacheKey(query, bindings, context);
+
+    if (isCacheEnabled) {
+        const cachedResult = getCachedResult(cacheKey);
+        if (cachedResult) {
+            cacheHitCount++;
+            const cacheMessage = `Cache hit #${cacheHitCount} | Cached at: ${new Date(cachedResult.cachedAt ?? 0).toLocaleTimeString()}`;
+            // Tracked dry runs are logged at the default level so that they are visible without changing it
+            if (isDryRunTrackingEnabled) {
+                logger.info(cacheMessage);
+            } else {
+                logger.debug(cacheMessage);
+            }
+            dryRunListener?.({ source, result: cachedResult, cached: true });
+            return cachedResult;
+        }
+    }
+
+    let bigquery: BigQuery;
+    try {
+        bigquery = await initializeBigQueryClient(context);
+    } catch (error: any) {
+        logger.error(`Could not create the BigQuery client (auth mode ${config.authMode}): ${formatErrorForLog(error)}`);
+        const result: DryRunResult = { scannedBytes: 0, referencedTables: [], schema: [], errors: [describeCredentialError(config.authMode, error.message)] };
+        dryRunListener?.({ source, result, cached: false });
+        return result;
+    }
     const currentTime = Date.now();
     
     // Track dry run statistics if enabled
@@ -61,35 +301,209 @@ export async function performDryRun(query: string): Promise<DryRunResult> {
         
         const lastTimeString = lastDryRunTime ? new Date(lastDryRunTime).toLocaleTimeString() : 'N/A';
         
-        console.log(`[BigQuery Previewer] Dry Run #${dryRunCount} | Current: ${currentTimeString} | Last: ${lastTimeString} | Diff: ${timeDiff}`);
+        logger.info(`Dry Run #${dryRunCount} | Current: ${currentTimeString} | Last: ${lastTimeString} | Diff: ${timeDiff}`);
     }
     
     // Update last dry run time
     lastDryRunTime = currentTime;
 
+    logger.trace(`Dry run query:\n${query}`);
     try {
         const [job] = await bigquery.createQueryJob({
             query,
+            params: bindings.params,
+            // The client's typings do not allow mixing scalar and array types in positional parameters
+            types: bindings.types as Query['types'],
+            location: context?.location || undefined,
+            defaultDataset: context ? getDefaultDatasetReference(context) : undefined,
             dryRun: true
         });
 
         const scannedBytes = parseInt(job.metadata.statistics?.totalBytesProcessed || '0', 10);
-        return { scannedBytes, errors: [] };
+        const referencedTables: ReferencedTable[] = (job.metadata.statistics?.query?.referencedTables ?? [])
+            .map((table: any) => ({
+                projectId: table.projectId,
+                datasetId: table.datasetId,
+                tableId: table.tableId
+            }));
+        const schema: SchemaField[] = job.metadata.statistics?.query?.schema?.fields ?? [];
+        const statementType: string | undefined = job.metadata.statistics?.query?.statementType;
+        const result: DryRunResult = {
+            scannedBytes,
+            referencedTables,
+            schema,
+            statementType,
+            destructiveKind: getDestructiveKind(statementType, query),
+            errors: []
+        };
+        logger.info(`Dry run finished in ${Date.now() - currentTime} ms: ${formatDataSize(scannedBytes)}, ${statementType ?? 'unknown statement type'}, ${referencedTables.length} referenced table(s)`);
+        if (isCacheEnabled) {
+            setCachedResult(cacheKey, result);
+        }
+        dryRunListener?.({ source, result, cached: false });
+        return result;
+    } catch (error: any) {
+        // Invalid queries are expected while typing, other failures point to a problem with the setup
+        const logMessage = `Dry run failed after ${Date.now() - currentTime} ms: ${formatErrorForLog(error)}`;
+        if (error.code === 400) {
+            logger.warn(logMessage);
+        } else {
+            logger.error(logMessage);
+        }
+        const errors = error.errors?.map((e: any) => e.message) || [describeCredentialError(config.authMode, error.message)];
+        const result: DryRunResult = { scannedBytes: 0, referencedTables: [], schema: [], errors };
+        // Only cache invalid queries; auth and network failures may succeed on the next attempt
+        if (isCacheEnabled && error.code === 400) {
+            setCachedResult(cacheKey, result);
+        }
+        dryRunListener?.({ source, result, cached: false });
+        return result;
+    }
+}
+
+/**
+ * Looks up the metadata of a table, such as its partitioning and clustering
+ * @param table The table
+ * @param context The project and location of the query that references the table, used for the client
+ * @returns The metadata, or undefined if it could not be read
+ */
+export async function getTableMetadata(table: ReferencedTable, context?: QueryContext): Promise<TableMetadata | undefined> {
+    const config = getConfiguration();
+    const name = getFullyQualifiedName(table);
+    // Different credentials may see different tables under the same name
+    const cacheKey = JSON.stringify([name, config.authMode, config.serviceAccountKeyPath, config.impersonateServiceAccount, config.externalAccountCredentialsPath]);
+
+    const entry = tableMetadataCache.get(cacheKey);
+    if (entry && Date.now() - entry.timestamp <= tableMetadataTtlMs) {
+        return entry.metadata;
+    }
+
+    const startTime = Date.now();
+    try {
+        const bigquery = await initializeBigQueryClient(context);
+        const [raw] = await bigquery.dataset(table.datasetId, { projectId: table.projectId }).table(table.tableId).getMetadata();
+        const metadata = parseTableMetadata(raw);
+        logger.debug(`Metadata of ${name} read in ${Date.now() - startTime} ms`);
+        tableMetadataCache.set(cacheKey, { metadata, timestamp: Date.now() });
+        return metadata;
     } catch (error: any) {
-        const errors = error.errors?.map((e: any) => e.message) || [error.message];
-        return { scannedBytes: 0, errors };
+        logger.warn(`Could not read the metadata of ${name}: ${formatErrorForLog(error)}`);
+        return undefined;
+    }
+}
+
+/**
+ * A project, dataset or table returned by a list API
+ */
+export interface ResourceEntry {
+    name: string;
+    /** E.g. the friendly name of a project, the location of a dataset or the type of a table */
+    detail?: string;
+}
+
+// Pages requested per list call; larger projects are listed only partially
+const maxListPages = 10;
+
+/**
+ * Calls a list API of BigQuery and collects all pages
+ * @param bigquery The client whose credentials are used
+ * @param path The path below the API's base URL, e.g. "projects/p/datasets"
+ * @param itemsKey The response field holding the items
+ * @returns The items of all pages
+ */
+async function listResources(bigquery: BigQuery, path: string, itemsKey: string): Promise<any[]> {
+    const items: any[] = [];
+    let pageToken: string | undefined;
+    for (let page = 0; page < maxListPages; page++) {
+        // An absolute URI keeps the client from prefixing its own project
+        const response: any = await new Promise((resolve, reject) => bigquery.request(
+            { uri: `${bigquery.baseUrl}/${path}`, qs: pageToken ? { maxResults: 1000, pageToken } : { maxResults: 1000 } },
+            (error, body) => error ? reject(error) : resolve(body)
+        ));
+        items.push(...(response?.[itemsKey] ?? []));
+        pageToken = response?.nextPageToken;
+        if (!pageToken) {
+            break;
+        }
+    }
+    return items;
+}
+
+/**
+ * Lists the projects the credentials can access
+ * @param context Optional project and location for the client
+ * @returns The projects
+ */
+export async function listProjects(context?: QueryContext): Promise<ResourceEntry[]> {
+    const bigquery = await initializeBigQueryClient(context);
+    const projects = await listResources(bigquery, 'projects', 'projects');
+    return projects.map(project => ({ name: project.projectReference?.projectId ?? project.id, detail: project.friendlyName }));
+}
+
+/**
+ * Lists the datasets of a project
+ * @param projectId The project
+ * @param context Optional project and location for the client
+ * @returns The datasets
+ */
+export async function listDatasets(projectId: string, context?: QueryContext): Promise<ResourceEntry[]> {
+    const bigquery = await initializeBigQueryClient(context);
+    const datasets = await listResources(bigquery, `projects/${encodeURIComponent(projectId)}/datasets`, 'datasets');
+    return datasets.map(dataset => ({ name: dataset.datasetReference.datasetId, detail: dataset.location }));
+}
+
+/**
+ * Lists the tables and views of a dataset
+ * @param projectId The project of the dataset
+ * @param datasetId The dataset
+ * @param context Optional project and location for the client
+ * @returns The tables
+ */
+export async function listTables(projectId: string, datasetId: string, context?: QueryContext): Promise<ResourceEntry[]> {
+    const bigquery = await initializeBigQueryClient(context);
+    const tables = await listResources(bigquery, `projects/${encodeURIComponent(projectId)}/datasets/${encodeURIComponent(datasetId)}/tables`, 'tables');
+    return tables.map(table => ({ name: table.tableReference.tableId, detail: table.type }));
+}
+
+/**
+ * Gets the project queries run in when a table name has no project
+ * @param context The project and location of the query
+ * @returns The configured project, or the project of the credentials
+ */
+export async function getDefaultProjectId(context?: QueryContext): Promise<string> {
+    if (context?.projectId) {
+        return context.projectId;
     }
+    const bigquery = await initializeBigQueryClient(context);
+    return bigquery.getProjectId();
+}
+
+/**
+ * Clears the cached table metadata so that it is read again on next use
+ */
+export function clearTableMetadataCache(): void {
+    tableMetadataCache.clear();
+}
+
+/**
+ * Clears all cached dry run results and table metadata
+ */
+export function clearDryRunCache(): void {
+    dryRunCache.clear();
+    clearTableMetadataCache();
 }
 
 /**
  * Get the current dry run statistics
- * @returns Object with dry run count, timing information, and timestamps
+ * @returns Object with dry run count, timing information, timestamps and cache usage
  */
 export function getDryRunStats(): {
     count: number;
     lastRunTime: number | null;
     timeSinceLast: string;
     currentTime: number;
+    cacheHits: number;
+    cacheSize: number;
 } {
     const currentTime = Date.now();
     let timeDiff = 'N/A';
@@ -103,14 +517,19 @@ export function getDryRunStats(): {
         count: dryRunCount,
         lastRunTime: lastDryRunTime,
         timeSinceLast: timeDiff,
-        currentTime: currentTime // Return current timestamp for consistent time displays
+        currentTime: currentTime, // Return current timestamp for consistent time displays
+        cacheHits: cacheHitCount,
+        cacheSize: dryRunCache.size
     };
 }
 
 /**
- * Reset the dry run tracking counters and timer
+ * Reset the dry run tracking counters, timer and cache
  */
 export function resetDryRunTracking(): void {
     dryRunCount = 0;
     lastDryRunTime = null;
+    cacheHitCount = 0;
+    dryRunCache.clear();
+    tableMetadataCache.clear();
 }
\ No newline at end of file
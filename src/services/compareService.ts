@@ -0,0 +1,174 @@
+import * as vscode from 'vscode';
+import { DryRunResult, getFullyQualifiedName, performDryRun } from './bigQueryService';
+import { getConfiguration } from './configurationService';
+import { getDryRunOptions } from './fileAnalysisService';
+import { getHeadVersion } from './gitService';
+import { formatErrorForLog, logger } from './logService';
+import { updateHeadDeltaStatusBar } from '../ui/statusBarManager';
+import { estimateCost } from '../utils/costCalculator';
+import { CancellationFlag } from '../utils/analysisQueue';
+import { formatDataSize } from '../utils/formatters';
+import { formatComparisonMarkdown, formatHeadDelta, ScanSide } from '../utils/headComparison';
+import { getDocumentStatements, isEmbeddedSqlHost } from '../utils/documentUtils';
+
+// Number of the latest status bar comparison of each document, keyed by document URI.
+// A comparison continues after its analysis has finished, so a newer analysis cannot cancel it through the queue.
+const latestHeadDeltas = new Map<string, number>();
+let headDeltaCount = 0;
+
+/**
+ * Splits a file into the queries that are dry run, following the statement setting like an analysis does
+ * @param document The document
+ * @param text The text of the version to split
+ * @returns The queries
+ */
+function getQueries(document: vscode.TextDocument, text: string): string[] {
+    const config = getConfiguration();
+    if (config.analyzeStatementsSeparately || isEmbeddedSqlHost(document)) {
+        return getDocumentStatements(document, text).map(statement => statement.text);
+    }
+    return text.trim().length > 0 ? [text] : [];
+}
+
+/**
+ * Combines the dry run results of one version of a file or statement
+ * @param results The dry run result of each query
+ * @returns The combined scan
+ */
+function combineResults(results: DryRunResult[]): ScanSide {
+    const config = getConfiguration();
+    return {
+        bytes: results.reduce((total, result) => total + result.scannedBytes, 0),
+        cost: results.reduce((total, result) => total + estimateCost(result.scannedBytes, result.referencedTables.length, config), 0),
+        statementTypes: [...new Set(results.map(result => result.statementType).filter((type): type is string => !!type))],
+        tables: [...new Set(results.flatMap(result => result.referencedTables.map(getFullyQualifiedName)))].sort(),
+        // A script returns the rows of its last statement that has a result
+        schema: [...results].reverse().find(result => result.schema.length > 0)?.schema ?? [],
+        errors: results.flatMap((result, index) =>
+            results.length > 1 ? result.errors.map(error => `Statement ${index + 1}: ${error}`) : result.errors)
+    };
+}
+
+/**
+ * Dry runs one version of a file or statement
+ * @param document The document
+ * @param queries The queries to dry run
+ * @param fileText The text of the whole file, whose header sets parameters and context
+ * @param source Name of the file for the usage statistics
+ * @returns The combined scan
+ */
+async function scanVersion(document: vscode.TextDocument, queries: string[], fileText: string, source: string): Promise<ScanSide> {
+    // Like an analysis, embedded queries take their options from the settings only
+    const dryRunOptions = { ...getDryRunOptions(isEmbeddedSqlHost(document) ? '' : fileText), source };
+    const results: DryRunResult[] = [];
+    for (const query of queries) {
+        results.push(await performDryRun(query, dryRunOptions));
+    }
+    return combineResults(results);
+}
+
+/**
+ * Checks whether the working copy differs from the committed version, ignoring line endings
+ * @param headText The committed text
+ * @param workingText The text of the working copy
+ * @returns true if the texts differ
+ */
+function hasChanges(headText: string, workingText: string): boolean {
+    const normalize = (text: string) => text.replace(/\r\n/g, '\n');
+    return normalize(headText) !== normalize(workingText);
+}
+
+/**
+ * Dry runs the committed version and the working copy of a file or one of its statements and compares them
+ * @param document The document
+ * @param statementIndex Index of the statement to compare, or undefined to compare the whole file
+ * @returns The comparison as Markdown, or undefined if the file has no committed version
+ */
+export async function compareWithHead(document: vscode.TextDocument, statementIndex?: number): Promise<string | undefined> {
+    const headText = await getHeadVersion(document.uri);
+    if (headText === undefined) {
+        return undefined;
+    }
+
+    const config = getConfiguration();
+    const workingText = document.getText();
+    const name = vscode.workspace.asRelativePath(document.uri);
+    let title = `\`${name}\``;
+    let headQueries: string[] | undefined;
+    let workingQueries: string[];
+
+    if (statementIndex === undefined) {
+        headQueries = getQueries(document, headText);
+        workingQueries = getQueries(document, workingText);
+    } else {
+        // Statements are matched by position, so inserting a statement above shifts the comparison
+        const headStatement = getDocumentStatements(document, headText)[statementIndex];
+        headQueries = headStatement ? [headStatement.text] : undefined;
+        workingQueries = [getDocumentStatements(document, workingText)[statementIndex].text];
+        title += ` statement ${statementIndex + 1}`;
+    }
+
+    logger.info(`Comparing ${name}${statementIndex === undefined ? '' : ` statement ${statementIndex + 1}`} with HEAD`);
+    const head = headQueries ? await scanVersion(document, headQueries, headText, `${name} (HEAD)`) : undefined;
+    const working = await scanVersion(document, workingQueries, workingText, name);
+    return formatComparisonMarkdown(title, head, working, config.currency);
+}
+
+/**
+ * Shows how the scan size of the working copy differs from the committed version in the status bar.
+ * The indicator is removed when the file has no uncommitted changes or no committed version.
+ * A comparison that is superseded by a newer analysis of the document leaves the indicator to the newer one.
+ * @param document The analyzed document
+ * @param analyzedText The text of the document the working results belong to
+ * @param workingResults The dry run results of the whole working copy
+ * @param flag Set when a newer analysis of the document supersedes the one that was compared
+ */
+export async function updateHeadDelta(
+    document: vscode.TextDocument,
+    analyzedText: string,
+    workingResults: DryRunResult[],
+    flag: CancellationFlag
+): Promise<void> {
+    const config = getConfiguration();
+    const uri = document.uri;
+    const requestId = ++headDeltaCount;
+    latestHeadDeltas.set(uri.toString(), requestId);
+    const isSuperseded = () => flag.isCancelled || latestHeadDeltas.get(uri.toString()) !== requestId;
+
+    const working = combineResults(workingResults);
+    if (!config.showHeadDelta || working.errors.length > 0) {
+        updateHeadDeltaStatusBar(uri);
+        return;
+    }
+
+    try {
+        const headText = await getHeadVersion(uri);
+        if (isSuperseded()) {
+            return;
+        }
+        if (headText === undefined || !hasChanges(headText, analyzedText)) {
+            updateHeadDeltaStatusBar(uri);
+            return;
+        }
+
+        const head = await scanVersion(document, getQueries(document, headText), headText, `${vscode.workspace.asRelativePath(uri)} (HEAD)`);
+        if (isSuperseded()) {
+            logger.debug(`Comparison of ${vscode.workspace.asRelativePath(uri)} with HEAD skipped: superseded by a newer analysis`);
+            return;
+        }
+        if (head.errors.length > 0) {
+            updateHeadDeltaStatusBar(uri, '$(git-compare) HEAD failed', `The committed version could not be dry run: ${head.errors.join('; ')}\nClick to compare with HEAD.`);
+            return;
+        }
+        updateHeadDeltaStatusBar(
+            uri,
+            `$(git-compare) ${formatHeadDelta(head.bytes, working.bytes)}`,
+            `HEAD: ${formatDataSize(head.bytes)}\nWorking copy: ${formatDataSize(working.bytes)}\nClick to compare with HEAD.`
+        );
+    } catch (error) {
+        logger.error(`Could not compare ${vscode.workspace.asRelativePath(uri)} with HEAD: ${formatErrorForLog(error)}`);
+        if (!isSuperseded()) {
+            updateHeadDeltaStatusBar(uri);
+        }
+    }
+}
@@ -1,4 +1,4 @@
-import * as vscode from 'vscode';
+import { QueryParameter } from '../utils/queryParameters';
 
 /**
  * Configuration interface for BigQuery Previewer settings
@@ -6,6 +6,12 @@ import * as vscode from 'vscode';
 export interface BigQueryPreviewerConfig {
     authMode: string;
     serviceAccountKeyPath: string;
+    impersonateServiceAccount: string;
+    externalAccountCredentialsPath: string;
+    projectId: string;
+    billingProjectId: string;
+    location: string;
+    defaultDataset: string;
     scanWarningThresholdMB: number;
     autoRunOnSave: boolean;
     autoRunOnChange: boolean;
@@ -15,18 +21,149 @@ export interface BigQueryPreviewerConfig {
     showScanWarnings: boolean;
     changeDebounceDelayMs: number;
     trackDryRuns: boolean;
+    analyzeStatementsSeparately: boolean;
+    enableCodeLens: boolean;
+    enableDiagnostics: boolean;
+    showCost: boolean;
+    pricePerTiB: number;
+    currency: string;
+    applyMinimumBilling: boolean;
+    costWarningThreshold: number;
+    cacheTtlSeconds: number;
+    cacheMaxEntries: number;
+    queryParameters: QueryParameter[];
+    destructiveStatementWarnings: string[];
+    batchInclude: string;
+    batchExclude: string;
+    batchConcurrency: number;
+    profiles: ConnectionProfile[];
+    maxConcurrentAnalyses: number;
+    pruningAdvice: boolean;
+    enableCompletion: boolean;
+    showHeadDelta: boolean;
+    embeddedSql: boolean;
+    notebookCells: boolean;
 }
 
 /**
- * Gets all configuration settings for the extension
+ * A named set of connection settings and thresholds that replaces the base settings while it is active
+ */
+export interface ConnectionProfile {
+    name: string;
+    authMode?: string;
+    serviceAccountKeyPath?: string;
+    impersonateServiceAccount?: string;
+    externalAccountCredentialsPath?: string;
+    projectId?: string;
+    billingProjectId?: string;
+    location?: string;
+    defaultDataset?: string;
+    scanWarningThresholdMB?: number;
+    costWarningThreshold?: number;
+}
+
+// Settings a profile can override
+const profileSettingKeys = [
+    'authMode',
+    'serviceAccountKeyPath',
+    'impersonateServiceAccount',
+    'externalAccountCredentialsPath',
+    'projectId',
+    'billingProjectId',
+    'location',
+    'defaultDataset',
+    'scanWarningThresholdMB',
+    'costWarningThreshold'
+] as const;
+
+let activeProfileName: string | undefined;
+
+/**
+ * A source of setting values, such as the VS Code workspace configuration or a settings file
+ */
+export interface SettingsSource {
+    get<T>(key: string, defaultValue: T): T;
+}
+
+let settingsSourceProvider: (() => SettingsSource) | undefined;
+
+/**
+ * Replaces the source settings are read from, e.g. a settings file when running outside of VS Code
+ * @param provider Function returning the current settings source
+ */
+export function setSettingsSource(provider: () => SettingsSource): void {
+    settingsSourceProvider = provider;
+}
+
+/**
+ * Gets the current settings source, defaulting to the VS Code workspace configuration
+ * @returns The settings source
+ */
+function getSettingsSource(): SettingsSource {
+    if (settingsSourceProvider) {
+        return settingsSourceProvider();
+    }
+    // Loaded lazily so that this module can be used by the CLI, where the vscode module does not exist
+    const vscode: typeof import('vscode') = require('vscode');
+    return vscode.workspace.getConfiguration('bigqueryPreviewer');
+}
+
+/**
+ * Sets the connection profile whose settings replace the base settings
+ * @param name The name of the profile, or undefined to use the base settings
+ */
+export function setActiveProfileName(name: string | undefined): void {
+    activeProfileName = name;
+}
+
+/**
+ * Gets the active connection profile
+ * @returns The active profile, or undefined if none is active or it no longer exists in the settings
+ */
+export function getActiveProfile(): ConnectionProfile | undefined {
+    if (!activeProfileName) {
+        return undefined;
+    }
+    return getSettingsSource().get<ConnectionProfile[]>('profiles', []).find(profile => profile.name === activeProfileName);
+}
+
+/**
+ * Replaces the settings that a profile defines
+ * @param config The base settings
+ * @param profile The profile to apply
+ * @returns The settings with the profile's values
+ */
+export function applyProfile(config: BigQueryPreviewerConfig, profile: ConnectionProfile | undefined): BigQueryPreviewerConfig {
+    if (!profile) {
+        return config;
+    }
+
+    const overrides: Partial<BigQueryPreviewerConfig> = {};
+    for (const key of profileSettingKeys) {
+        if (profile[key] !== undefined) {
+            Object.assign(overrides, { [key]: profile[key] });
+        }
+    }
+    return { ...config, ...overrides };
+}
+
+/**
+ * Gets all configuration settings for the extension, with the active profile applied
  * @returns Configuration object with all BigQuery Previewer settings
  */
 export function getConfiguration(): BigQueryPreviewerConfig {
-    const config = vscode.workspace.getConfiguration('bigqueryPreviewer');
+    const config = getSettingsSource();
+    const profiles = config.get<ConnectionProfile[]>('profiles', []);
     
-    return {
+    return applyProfile({
         authMode: config.get<string>('authMode', 'adc'),
         serviceAccountKeyPath: config.get<string>('serviceAccountKeyPath', ''),
+        impersonateServiceAccount: config.get<string>('impersonateServiceAccount', ''),
+        externalAccountCredentialsPath: config.get<string>('externalAccountCredentialsPath', ''),
+        projectId: config.get<string>('projectId', ''),
+        billingProjectId: config.get<string>('billingProjectId', ''),
+        location: config.get<string>('location', ''),
+        defaultDataset: config.get<string>('defaultDataset', ''),
         scanWarningThresholdMB: config.get<number>('scanWarningThresholdMB', 100),
         autoRunOnSave: config.get<boolean>('autoRunOnSave', true),
         autoRunOnChange: config.get<boolean>('autoRunOnChange', true),
@@ -36,5 +173,27 @@ export function getConfiguration(): BigQueryPreviewerConfig {
         showScanWarnings: config.get<boolean>('showScanWarnings', true),
         changeDebounceDelayMs: config.get<number>('changeDebounceDelayMs', 1500),
         trackDryRuns: config.get<boolean>('trackDryRuns', false),
-    };
+        analyzeStatementsSeparately: config.get<boolean>('analyzeStatementsSeparately', true),
+        enableCodeLens: config.get<boolean>('enableCodeLens', true),
+        enableDiagnostics: config.get<boolean>('enableDiagnostics', true),
+        showCost: config.get<boolean>('showCost', true),
+        pricePerTiB: config.get<number>('pricePerTiB', 6.25),
+        currency: config.get<string>('currency', 'USD'),
+        applyMinimumBilling: config.get<boolean>('applyMinimumBilling', true),
+        costWarningThreshold: config.get<number>('costWarningThreshold', 0),
+        cacheTtlSeconds: config.get<number>('cacheTtlSeconds', 300),
+        cacheMaxEntries: config.get<number>('cacheMaxEntries', 200),
+        queryParameters: config.get<QueryParameter[]>('queryParameters', []),
+        destructiveStatementWarnings: config.get<string[]>('destructiveStatementWarnings', ['DELETE_WITHOUT_WHERE', 'DROP', 'TRUNCATE', 'CREATE_OR_REPLACE']),
+        batchInclude: config.get<string>('batchInclude', '**/*.sql'),
+        batchExclude: config.get<string>('batchExclude', '**/{node_modules,.git}/**'),
+        batchConcurrency: config.get<number>('batchConcurrency', 4),
+        profiles,
+        maxConcurrentAnalyses: config.get<number>('maxConcurrentAnalyses', 3),
+        pruningAdvice: config.get<boolean>('pruningAdvice', true),
+        enableCompletion: config.get<boolean>('enableCompletion', true),
+        showHeadDelta: config.get<boolean>('showHeadDelta', true),
+        embeddedSql: config.get<boolean>('embeddedSql', true),
+        notebookCells: config.get<boolean>('notebookCells', true),
+    }, profiles.find(profile => profile.name === activeProfileName));
 }
\ No newline at end of file
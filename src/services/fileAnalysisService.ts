@@ -0,0 +1,51 @@
+import { performDryRun, DryRunOptions, DryRunResult, getFullyQualifiedName } from './bigQueryService';
+import { getConfiguration } from './configurationService';
+import { BatchFileResult } from '../utils/batchReport';
+import { estimateCost } from '../utils/costCalculator';
+import { splitSqlStatements } from '../utils/sqlSplitter';
+import { mergeParameters, parseParameterHeader } from '../utils/queryParameters';
+import { parseContextDirectives, resolveQueryContext } from '../utils/queryContext';
+
+/**
+ * Gets the dry run options of a file, combining its header declarations with the settings
+ * @param text The full text of the file being analyzed
+ * @returns The effective query parameters and context
+ */
+export function getDryRunOptions(text: string): DryRunOptions {
+    const config = getConfiguration();
+    return {
+        parameters: mergeParameters(config.queryParameters, parseParameterHeader(text)),
+        context: resolveQueryContext(config, parseContextDirectives(text))
+    };
+}
+
+/**
+ * Dry runs a whole SQL file, statement by statement if statements are analyzed separately.
+ * Does not depend on VS Code, so that it can be used by both the workspace analysis and the CLI.
+ * @param file The path of the file to show in reports
+ * @param text The text of the file
+ * @returns The combined result of the statements of the file
+ */
+export async function analyzeSqlFile(file: string, text: string): Promise<BatchFileResult> {
+    const config = getConfiguration();
+    const queries = config.analyzeStatementsSeparately ?
+        splitSqlStatements(text).map(statement => statement.text) :
+        (text.trim().length > 0 ? [text] : []);
+    const dryRunOptions: DryRunOptions = { ...getDryRunOptions(text), source: file };
+
+    const results: DryRunResult[] = [];
+    for (const query of queries) {
+        results.push(await performDryRun(query, dryRunOptions));
+    }
+
+    return {
+        file,
+        statements: queries.length,
+        bytes: results.reduce((total, result) => total + result.scannedBytes, 0),
+        cost: results.reduce((total, result) => total + estimateCost(result.scannedBytes, result.referencedTables.length, config), 0),
+        tables: [...new Set(results.flatMap(result => result.referencedTables.map(getFullyQualifiedName)))].sort(),
+        statementTypes: [...new Set(results.map(result => result.statementType).filter((type): type is string => !!type))],
+        errors: results.flatMap((result, index) =>
+            queries.length > 1 ? result.errors.map(error => `Statement ${index + 1}: ${error}`) : result.errors)
+    };
+}
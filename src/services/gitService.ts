@@ -0,0 +1,33 @@
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as vscode from 'vscode';
+import { logger } from './logService';
+
+const execFileAsync = promisify(execFile);
+// Git commands are local, so a slow one points to a problem rather than a large file
+const gitTimeoutMs = 10000;
+
+/**
+ * Reads the committed version of a file
+ * @param uri The file
+ * @returns The text of the file at HEAD, or undefined if the file is not in a git repository or not committed
+ */
+export async function getHeadVersion(uri: vscode.Uri): Promise<string | undefined> {
+    if (uri.scheme !== 'file') {
+        return undefined;
+    }
+
+    try {
+        // "./" makes the path relative to the working directory instead of the repository root
+        const { stdout } = await execFileAsync('git', ['show', `HEAD:./${path.basename(uri.fsPath)}`], {
+            cwd: path.dirname(uri.fsPath),
+            timeout: gitTimeoutMs,
+            maxBuffer: 64 * 1024 * 1024
+        });
+        return stdout;
+    } catch (error: any) {
+        logger.debug(`No committed version of ${vscode.workspace.asRelativePath(uri)}: ${error.stderr?.trim() || error.message}`);
+        return undefined;
+    }
+}
@@ -0,0 +1,54 @@
+import * as vscode from 'vscode';
+import { formatErrorForLog, logger } from './logService';
+import { appendHistoryEntry, FileHistory, HistoryEntry, pruneFileHistories } from '../utils/analysisHistory';
+
+// Key of the analysis history in the workspace state
+const historyStateKey = 'bigqueryPreviewer.analysisHistory';
+// Maximum number of entries kept per file and scope
+const maxEntriesPerScope = 50;
+// Maximum number of files with a history; the least recently analyzed are dropped
+const maxFiles = 200;
+
+let workspaceState: vscode.Memento | undefined;
+
+/**
+ * Initialize the history service with the workspace state of the extension
+ * @param context The extension context
+ */
+export function initializeHistory(context: vscode.ExtensionContext): void {
+    workspaceState = context.workspaceState;
+}
+
+/**
+ * Records a successful analysis of a file or one of its statements
+ * @param uri The URI of the analyzed document
+ * @param scope 'file' for the whole file, or the scope of a statement
+ * @param entry The analysis to record
+ * @returns The previous analysis of the same scope, or undefined if there is none
+ */
+export function recordAnalysis(uri: vscode.Uri, scope: string, entry: HistoryEntry): HistoryEntry | undefined {
+    if (!workspaceState) {
+        return undefined;
+    }
+
+    const allHistory = workspaceState.get<Record<string, FileHistory>>(historyStateKey, {});
+    const fileHistory = allHistory[uri.toString()] ?? {};
+    const { entries, previous } = appendHistoryEntry(fileHistory[scope] ?? [], entry, maxEntriesPerScope);
+
+    // The file just analyzed has the newest entry, so it is always kept
+    workspaceState.update(historyStateKey, pruneFileHistories({
+        ...allHistory,
+        [uri.toString()]: { ...fileHistory, [scope]: entries }
+    }, maxFiles)).then(undefined, error => logger.error(`Failed to save analysis history: ${formatErrorForLog(error)}`));
+
+    return previous;
+}
+
+/**
+ * Gets the recorded analyses of a file
+ * @param uri The URI of the document
+ * @returns The history of the file, empty if it has never been analyzed
+ */
+export function getFileHistory(uri: vscode.Uri): FileHistory {
+    return workspaceState?.get<Record<string, FileHistory>>(historyStateKey, {})[uri.toString()] ?? {};
+}
@@ -0,0 +1,63 @@
+/**
+ * Leveled logging that writes to the extension's output channel, or to another sink such as
+ * stderr when running outside of VS Code
+ */
+
+/**
+ * A destination for log messages; a VS Code LogOutputChannel is one
+ */
+export interface LogSink {
+    trace(message: string): void;
+    debug(message: string): void;
+    info(message: string): void;
+    warn(message: string): void;
+    error(message: string): void;
+}
+
+// Until a sink is set, messages go to the console like before the output channel existed
+const consoleSink: LogSink = {
+    trace: message => console.debug(message),
+    debug: message => console.debug(message),
+    info: message => console.info(message),
+    warn: message => console.warn(message),
+    error: message => console.error(message)
+};
+
+let sink: LogSink = consoleSink;
+
+/**
+ * Replaces the destination of log messages
+ * @param logSink The new sink, or undefined to log to the console
+ */
+export function setLogSink(logSink: LogSink | undefined): void {
+    sink = logSink ?? consoleSink;
+}
+
+/**
+ * Logs messages at the level of the called method. Messages below the level chosen by the user
+ * in the output channel are discarded by the channel.
+ */
+export const logger: LogSink = {
+    trace: message => sink.trace(message),
+    debug: message => sink.debug(message),
+    info: message => sink.info(message),
+    warn: message => sink.warn(message),
+    error: message => sink.error(message)
+};
+
+/**
+ * Formats an error for the log, including the details BigQuery returns with failed requests
+ * @param error The error thrown by the client
+ * @returns The message followed by the status code and the error payload, if any
+ */
+export function formatErrorForLog(error: any): string {
+    const message = error?.message ?? String(error);
+    const payload: Record<string, unknown> = {};
+    if (error?.code !== undefined) {
+        payload.code = error.code;
+    }
+    if (Array.isArray(error?.errors) && error.errors.length > 0) {
+        payload.errors = error.errors;
+    }
+    return Object.keys(payload).length > 0 ? `${message}\n${JSON.stringify(payload, null, 2)}` : message;
+}
@@ -0,0 +1,141 @@
+import {
+    clearTableMetadataCache,
+    getDefaultProjectId,
+    getTableMetadata,
+    listDatasets,
+    listProjects,
+    listTables,
+    ResourceEntry
+} from './bigQueryService';
+import { getConfiguration } from './configurationService';
+import { formatErrorForLog, logger } from './logService';
+import { QualifiedTable } from '../utils/completionContext';
+import { QueryContext } from '../utils/queryContext';
+import { SchemaField } from '../utils/schemaFormatter';
+
+// Lists older than this are read again the next time they are needed
+const indexTtlMs = 10 * 60 * 1000;
+
+// Projects, datasets and tables, keyed by what was listed and the credentials used
+const metadataIndex = new Map<string, { entries: ResourceEntry[]; timestamp: number }>();
+// Lists being read, so that completions requested in quick succession share one request
+const pendingLoads = new Map<string, Promise<ResourceEntry[]>>();
+// Project of the credentials, used for table names without a project
+let credentialsProject: { credentials: string; projectId: Promise<string | undefined> } | undefined;
+
+/**
+ * Identifies the configured credentials; different credentials may see different projects and datasets
+ * @returns The credential settings as a string
+ */
+function getCredentialsKey(): string {
+    const config = getConfiguration();
+    return JSON.stringify([config.authMode, config.serviceAccountKeyPath, config.impersonateServiceAccount, config.externalAccountCredentialsPath]);
+}
+
+/**
+ * Gets a list from the index, reading it when it is missing or has expired
+ * @param path What is listed, e.g. ["tables", "my-project", "sales"]
+ * @param load Reads the list from BigQuery
+ * @returns The list; empty if it could not be read
+ */
+async function getIndexed(path: string[], load: () => Promise<ResourceEntry[]>): Promise<ResourceEntry[]> {
+    const key = JSON.stringify([...path, getCredentialsKey()]);
+
+    const cached = metadataIndex.get(key);
+    if (cached && Date.now() - cached.timestamp <= indexTtlMs) {
+        return cached.entries;
+    }
+
+    let pending = pendingLoads.get(key);
+    if (!pending) {
+        const startTime = Date.now();
+        pending = load()
+            .then(entries => {
+                logger.debug(`Listed ${entries.length} ${path.join(' ')} in ${Date.now() - startTime} ms`);
+                return entries;
+            }, error => {
+                // Failures are kept like results so that typing does not repeat a failing request
+                logger.warn(`Could not list ${path.join(' ')}: ${formatErrorForLog(error)}`);
+                return [];
+            })
+            .then(entries => {
+                metadataIndex.set(key, { entries, timestamp: Date.now() });
+                pendingLoads.delete(key);
+                return entries;
+            });
+        pendingLoads.set(key, pending);
+    }
+    return pending;
+}
+
+/**
+ * Gets the projects the credentials can access
+ * @param context The project and location of the query
+ * @returns The projects
+ */
+export function getIndexedProjects(context?: QueryContext): Promise<ResourceEntry[]> {
+    return getIndexed(['projects'], () => listProjects(context));
+}
+
+/**
+ * Gets the datasets of a project
+ * @param projectId The project
+ * @param context The project and location of the query
+ * @returns The datasets
+ */
+export function getIndexedDatasets(projectId: string, context?: QueryContext): Promise<ResourceEntry[]> {
+    return getIndexed(['datasets', projectId], () => listDatasets(projectId, context));
+}
+
+/**
+ * Gets the tables and views of a dataset
+ * @param projectId The project of the dataset
+ * @param datasetId The dataset
+ * @param context The project and location of the query
+ * @returns The tables
+ */
+export function getIndexedTables(projectId: string, datasetId: string, context?: QueryContext): Promise<ResourceEntry[]> {
+    return getIndexed(['tables', projectId, datasetId], () => listTables(projectId, datasetId, context));
+}
+
+/**
+ * Gets the columns of a table
+ * @param table The table
+ * @param context The project and location of the query
+ * @returns The columns; empty if the table's metadata could not be read
+ */
+export async function getIndexedColumns(table: QualifiedTable, context?: QueryContext): Promise<SchemaField[]> {
+    return (await getTableMetadata(table, context))?.schema ?? [];
+}
+
+/**
+ * Gets the project of table names without a project
+ * @param context The project and location of the query
+ * @returns The configured project or the project of the credentials, or undefined if neither is known
+ */
+export async function getIndexedDefaultProject(context?: QueryContext): Promise<string | undefined> {
+    if (context?.projectId) {
+        return context.projectId;
+    }
+    const credentials = getCredentialsKey();
+    if (credentialsProject?.credentials !== credentials) {
+        credentialsProject = {
+            credentials,
+            projectId: getDefaultProjectId(context).catch(error => {
+                logger.warn(`Could not determine the project of the credentials: ${formatErrorForLog(error)}`);
+                return undefined;
+            })
+        };
+    }
+    return credentialsProject.projectId;
+}
+
+/**
+ * Drops all listed projects, datasets, tables and columns so that they are read again on next use
+ */
+export function refreshMetadataIndex(): void {
+    metadataIndex.clear();
+    credentialsProject = undefined;
+    clearTableMetadataCache();
+    logger.info('Metadata index cleared');
+}
@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import { AnalysisTrigger } from './analysisService';
+import { DryRunOptions, DryRunResult, performDryRun } from './bigQueryService';
+import { getConfiguration } from './configurationService';
+import { formatErrorForLog, logger } from './logService';
+import { recordAnalysisTrigger } from './usageService';
+import { clearDiagnostics, publishDiagnostics } from '../ui/diagnosticsManager';
+import { bigQueryNotebookTypes, clearNotebookResults, setCellResult } from '../ui/notebookCellStatusBar';
+import { createAnalysisQueue } from '../utils/analysisQueue';
+import { BigQueryCell, parseBigQueryCell } from '../utils/bigqueryMagic';
+import { estimateCost } from '../utils/costCalculator';
+import { mergeParameters } from '../utils/queryParameters';
+import { resolveQueryContext } from '../utils/queryContext';
+
+// Cell analyses are queued per cell so that only the latest request of each runs
+const cellQueue = createAnalysisQueue(() => getConfiguration().maxConcurrentAnalyses);
+// Debounce timers of edited cells, keyed by the cell document URI
+const cellDebounceTimers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * The combined scan of the %%bigquery cells of a notebook
+ */
+export interface NotebookScanTotal {
+    /** Number of analyzed cells */
+    cells: number;
+    bytes: number;
+    cost: number;
+    /** Number of cells whose dry run failed; their scan is not part of the total */
+    failed: number;
+}
+
+/**
+ * Checks whether %%bigquery cells of a notebook are analyzed
+ * @param notebook The notebook
+ * @returns true if the notebook is a Jupyter notebook or interactive window and cell analysis is enabled
+ */
+export function isBigQueryNotebook(notebook: vscode.NotebookDocument): boolean {
+    return bigQueryNotebookTypes.includes(notebook.notebookType) && getConfiguration().notebookCells;
+}
+
+/**
+ * Reads the query of a %%bigquery cell
+ * @param cell The notebook cell
+ * @returns The cell's query and options, or undefined for other cells
+ */
+function getBigQueryCell(cell: vscode.NotebookCell): BigQueryCell | undefined {
+    return cell.kind === vscode.NotebookCellKind.Code ? parseBigQueryCell(cell.document.getText()) : undefined;
+}
+
+/**
+ * Gets the name of a cell for the log and the usage statistics
+ * @param cell The notebook cell
+ * @returns The notebook path relative to the workspace folder with the cell number
+ */
+function getCellName(cell: vscode.NotebookCell): string {
+    return `${vscode.workspace.asRelativePath(cell.notebook.uri)} cell ${cell.index + 1}`;
+}
+
+/**
+ * Dry runs the query of a %%bigquery cell and shows the result below the cell.
+ * The options of the magic line override the settings, like a file header does for SQL files.
+ * @param cell The notebook cell
+ * @param trigger What caused the analysis
+ * @returns The dry run result, or undefined if the cell was not analyzed or the analysis was superseded
+ */
+export async function analyzeCell(cell: vscode.NotebookCell, trigger: AnalysisTrigger): Promise<DryRunResult | undefined> {
+    const uri = cell.document.uri;
+    const bigQueryCell = getBigQueryCell(cell);
+    if (!bigQueryCell || bigQueryCell.query.length === 0) {
+        // The magic line may have been removed since the last analysis
+        setCellResult(uri.toString(), undefined);
+        clearDiagnostics(uri);
+        return undefined;
+    }
+    if (bigQueryCell.legacySql) {
+        logger.info(`Analysis of ${getCellName(cell)} skipped: dry runs do not support legacy SQL`);
+        return undefined;
+    }
+
+    logger.info(`Analysis of ${getCellName(cell)} requested (trigger: ${trigger})`);
+    recordAnalysisTrigger(trigger);
+
+    const config = getConfiguration();
+    const dryRunOptions: DryRunOptions = {
+        parameters: mergeParameters(config.queryParameters, bigQueryCell.parameters),
+        context: resolveQueryContext(config, bigQueryCell.context),
+        source: getCellName(cell)
+    };
+
+    let cellResult: DryRunResult | undefined;
+    await cellQueue.schedule(uri.toString(), async flag => {
+        const result = await performDryRun(bigQueryCell.query, dryRunOptions);
+        if (flag.isCancelled) {
+            logger.info(`Analysis of ${getCellName(cell)} skipped: superseded by a newer analysis`);
+            return;
+        }
+
+        const document = cell.document;
+        const queryRange = new vscode.Range(
+            document.positionAt(bigQueryCell.queryOffset),
+            document.positionAt(bigQueryCell.queryOffset + bigQueryCell.query.length)
+        );
+        const cellRange = new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length));
+        publishDiagnostics(document, cellRange, [{ range: queryRange, errors: result.errors }]);
+        setCellResult(uri.toString(), result);
+        cellResult = result;
+    });
+    return cellResult;
+}
+
+/**
+ * Dry runs all %%bigquery cells of a notebook and totals their scan
+ * @param notebook The notebook
+ * @param trigger What caused the analysis
+ * @returns The total scan of the analyzed cells
+ */
+export async function analyzeNotebook(notebook: vscode.NotebookDocument, trigger: AnalysisTrigger): Promise<NotebookScanTotal> {
+    const config = getConfiguration();
+    const cells = notebook.getCells().filter(cell => getBigQueryCell(cell));
+    const results = (await Promise.all(cells.map(cell => analyzeCell(cell, trigger))))
+        .filter((result): result is DryRunResult => !!result);
+    const succeeded = results.filter(result => result.errors.length === 0);
+
+    return {
+        cells: results.length,
+        bytes: succeeded.reduce((total, result) => total + result.scannedBytes, 0),
+        cost: succeeded.reduce((total, result) => total + estimateCost(result.scannedBytes, result.referencedTables.length, config), 0),
+        failed: results.length - succeeded.length
+    };
+}
+
+/**
+ * Analyzes the cells of a notebook that were executed or edited.
+ * Executed cells are analyzed at once, edited cells after the change debounce delay.
+ * @param event The notebook change
+ * @param isExtensionActive Whether the extension is currently active
+ */
+export function handleNotebookChange(event: vscode.NotebookDocumentChangeEvent, isExtensionActive: boolean): void {
+    if (!isExtensionActive || !isBigQueryNotebook(event.notebook)) {
+        return;
+    }
+
+    const config = getConfiguration();
+    for (const change of event.cellChanges) {
+        const uri = change.cell.document.uri.toString();
+        if (change.executionSummary) {
+            clearTimeout(cellDebounceTimers.get(uri));
+            cellDebounceTimers.delete(uri);
+            analyzeCell(change.cell, 'execute').catch(error => logger.error(`Analysis of ${getCellName(change.cell)} failed: ${formatErrorForLog(error)}`));
+        } else if (change.document && config.autoRunOnChange) {
+            // Clear the cell's existing timer to implement debouncing; other cells keep theirs
+            clearTimeout(cellDebounceTimers.get(uri));
+            cellDebounceTimers.set(uri, setTimeout(() => {
+                cellDebounceTimers.delete(uri);
+                analyzeCell(change.cell, 'change').catch(error => logger.error(`Analysis of ${getCellName(change.cell)} failed: ${formatErrorForLog(error)}`));
+            }, config.changeDebounceDelayMs));
+        }
+    }
+}
+
+/**
+ * Cancels the analyses of a notebook's cells and removes their results, e.g. when it is closed
+ * @param notebook The notebook
+ */
+export function closeNotebook(notebook: vscode.NotebookDocument): void {
+    for (const cell of notebook.getCells()) {
+        const uri = cell.document.uri.toString();
+        clearTimeout(cellDebounceTimers.get(uri));
+        cellDebounceTimers.delete(uri);
+        cellQueue.cancel(key => key === uri);
+        clearDiagnostics(cell.document.uri);
+    }
+    clearNotebookResults(notebook);
+}
+
+/**
+ * Cancels all pending cell analyses
+ * Used during extension deactivation
+ */
+export function disposeNotebookAnalysis(): void {
+    cellDebounceTimers.forEach(timer => clearTimeout(timer));
+    cellDebounceTimers.clear();
+    cellQueue.cancel(() => true);
+}
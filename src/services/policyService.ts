@@ -0,0 +1,104 @@
+import * as vscode from 'vscode';
+import { BigQueryPreviewerConfig, getConfiguration } from './configurationService';
+import { applyBudgetRule, BudgetPolicy, BudgetRule, budgetPolicyFileName, findBudgetRule, parseBudgetPolicy } from '../utils/budgetPolicy';
+
+// Parsed policy files, keyed by the URI of their workspace folder
+const policies = new Map<string, BudgetPolicy>();
+const policyChangeEmitter = new vscode.EventEmitter<void>();
+
+/**
+ * Fired when a policy file was loaded, changed or removed
+ */
+export const onDidChangePolicies = policyChangeEmitter.event;
+
+/**
+ * The thresholds that apply to a document after applying its budget rule
+ */
+export interface EffectiveBudget {
+    config: BigQueryPreviewerConfig;
+    /** The rule that applied, or undefined if no policy rule matches the document */
+    rule?: BudgetRule;
+}
+
+/**
+ * Loads the policy files of all workspace folders and reloads them when they change
+ * @returns Disposable for the file watcher and workspace folder listener
+ */
+export function initializePolicies(): vscode.Disposable {
+    const reloadAll = () => {
+        policies.clear();
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            loadPolicy(folder);
+        }
+    };
+
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/${budgetPolicyFileName}`);
+    const reloadFolder = (uri: vscode.Uri) => {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        // Only policy files in the root of a workspace folder apply
+        if (folder && vscode.Uri.joinPath(folder.uri, budgetPolicyFileName).toString() === uri.toString()) {
+            loadPolicy(folder);
+        }
+    };
+
+    reloadAll();
+    return vscode.Disposable.from(
+        watcher,
+        watcher.onDidCreate(reloadFolder),
+        watcher.onDidChange(reloadFolder),
+        watcher.onDidDelete(reloadFolder),
+        vscode.workspace.onDidChangeWorkspaceFolders(reloadAll)
+    );
+}
+
+/**
+ * Reads and parses the policy file of a workspace folder, reporting invalid files
+ * @param folder The workspace folder
+ */
+async function loadPolicy(folder: vscode.WorkspaceFolder): Promise<void> {
+    const policyUri = vscode.Uri.joinPath(folder.uri, budgetPolicyFileName);
+    let text: string;
+    try {
+        text = Buffer.from(await vscode.workspace.fs.readFile(policyUri)).toString('utf8');
+    } catch {
+        // No policy file in this folder
+        if (policies.delete(folder.uri.toString())) {
+            policyChangeEmitter.fire();
+        }
+        return;
+    }
+
+    try {
+        policies.set(folder.uri.toString(), parseBudgetPolicy(text));
+    } catch (error: any) {
+        policies.delete(folder.uri.toString());
+        vscode.window.showWarningMessage(`Ignoring invalid ${budgetPolicyFileName} in ${folder.name}: ${error.message}`);
+    }
+    policyChangeEmitter.fire();
+}
+
+/**
+ * Gets the settings of a document with the scan thresholds of its budget rule applied
+ * @param uri The URI of the document
+ * @returns The effective configuration and the rule that applied
+ */
+export function getEffectiveBudget(uri: vscode.Uri): EffectiveBudget {
+    const config = getConfiguration();
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    const policy = folder && policies.get(folder.uri.toString());
+    if (!folder || !policy) {
+        return { config };
+    }
+
+    const relativePath = vscode.workspace.asRelativePath(uri, false);
+    const rule = findBudgetRule(policy, relativePath);
+    return { config: applyBudgetRule(config, rule), rule };
+}
+
+/**
+ * Clears the loaded policies
+ * Used during extension deactivation
+ */
+export function disposePolicies(): void {
+    policies.clear();
+}
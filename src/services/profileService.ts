@@ -0,0 +1,33 @@
+import * as vscode from 'vscode';
+import { ConnectionProfile, getActiveProfile, setActiveProfileName } from './configurationService';
+
+// Key of the active profile name in the workspace state
+const activeProfileStateKey = 'bigqueryPreviewer.activeProfile';
+
+let workspaceState: vscode.Memento | undefined;
+
+/**
+ * Restores the profile that was active the last time this workspace was open
+ * @param context The extension context
+ */
+export function initializeProfiles(context: vscode.ExtensionContext): void {
+    workspaceState = context.workspaceState;
+    setActiveProfileName(workspaceState.get<string>(activeProfileStateKey));
+}
+
+/**
+ * Activates a connection profile and remembers it for this workspace
+ * @param profile The profile to activate, or undefined to use the base settings
+ */
+export async function activateProfile(profile: ConnectionProfile | undefined): Promise<void> {
+    setActiveProfileName(profile?.name);
+    await workspaceState?.update(activeProfileStateKey, profile?.name);
+}
+
+/**
+ * Gets the name of the active profile for display
+ * @returns The profile name, or undefined if the base settings are used
+ */
+export function getActiveProfileName(): string | undefined {
+    return getActiveProfile()?.name;
+}
@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
-import { areSelectionsEqual, isEligibleForAnalysis } from '../utils/documentUtils';
+import { areSelectionsEqual, getSqlSelection, isEligibleForAnalysis } from '../utils/documentUtils';
 import { getConfiguration } from './configurationService';
 import { analyzeQuery } from './analysisService';
+import { logger } from './logService';
 
 // Variables for selection analysis
 const selectionStabilizationDelay = 750; // 750ms delay before analyzing a selection
@@ -32,7 +33,7 @@ export function handleSelectionChange(editor: vscode.TextEditor, isExtensionActi
     
     // If we've hit the limit, wait before enabling more triggers
     if (selectionTriggerCount > maxSelectionTriggers) {
-        console.log('Too many selection changes detected. Waiting before enabling more selection triggers.');
+        logger.debug('Too many selection changes detected. Waiting before enabling more selection triggers.');
         setTimeout(() => {
             selectionTriggerCount = 0;
         }, selectionTriggerResetTime);
@@ -45,8 +46,8 @@ export function handleSelectionChange(editor: vscode.TextEditor, isExtensionActi
         selectionAnalysisTimer = undefined;
     }
     
-    // If selection is empty, don't schedule an analysis
-    if (editor.selection.isEmpty) {
+    // If selection is empty or only covers host code around embedded SQL, don't schedule an analysis
+    if (!getSqlSelection(editor.document, editor.selection)) {
         lastSelection = undefined;
         return;
     }
@@ -71,7 +72,7 @@ export function handleSelectionChange(editor: vscode.TextEditor, isExtensionActi
             activeEditor.document === editor.document &&
             areSelectionsEqual(activeEditor.selection, lastSelection.selection)
         ) {
-            await analyzeQuery(editor.document, editor);
+            await analyzeQuery(editor.document, editor, undefined, 'selection');
         }
         selectionAnalysisTimer = undefined;
     }, selectionStabilizationDelay);
@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import { DryRunEvent, setDryRunListener } from './bigQueryService';
+import { formatErrorForLog, logger } from './logService';
+import { createUsageStats, recordDryRunUsage, recordTriggerUsage, UsageStats } from '../utils/usageStats';
+
+// Key of the usage statistics in the global state, shared by all workspaces
+const usageStateKey = 'bigqueryPreviewer.usageStats';
+// Number of days and files kept in the statistics
+const usageLimits = { maxDays: 365, maxFiles: 200 };
+// Delay before changed statistics are written, so that a burst of dry runs is stored at once
+const saveDelayMs = 5000;
+
+let globalState: vscode.Memento | undefined;
+// The statistics including changes not yet written to the global state
+let usageStats: UsageStats | undefined;
+let saveTimer: NodeJS.Timeout | undefined;
+const usageChangeEmitter = new vscode.EventEmitter<void>();
+
+/**
+ * Fired when the usage statistics change
+ */
+export const onDidChangeUsage = usageChangeEmitter.event;
+
+/**
+ * Initialize the usage service with the global state of the extension and start counting dry runs
+ * @param context The extension context
+ */
+export function initializeUsage(context: vscode.ExtensionContext): void {
+    globalState = context.globalState;
+    setDryRunListener(recordDryRun);
+}
+
+/**
+ * Gets the usage statistics
+ * @returns The statistics, empty if nothing has been recorded
+ */
+export function getUsageStats(): UsageStats {
+    return usageStats ?? globalState?.get<UsageStats>(usageStateKey) ?? createUsageStats(Date.now());
+}
+
+/**
+ * Stores updated usage statistics; they are written to the global state after a short delay
+ * @param stats The statistics to store
+ */
+function saveUsageStats(stats: UsageStats): void {
+    usageStats = stats;
+    if (!saveTimer) {
+        saveTimer = setTimeout(writeUsageStats, saveDelayMs);
+    }
+    usageChangeEmitter.fire();
+}
+
+/**
+ * Writes the pending usage statistics to the global state
+ */
+function writeUsageStats(): void {
+    clearTimeout(saveTimer);
+    saveTimer = undefined;
+    if (usageStats) {
+        globalState?.update(usageStateKey, usageStats)
+            .then(undefined, error => logger.error(`Failed to save usage statistics: ${formatErrorForLog(error)}`));
+    }
+}
+
+/**
+ * Counts a finished dry run
+ * @param event The dry run
+ */
+function recordDryRun(event: DryRunEvent): void {
+    if (!globalState) {
+        return;
+    }
+    saveUsageStats(recordDryRunUsage(getUsageStats(), {
+        timestamp: Date.now(),
+        file: event.source,
+        bytes: event.result.scannedBytes,
+        cached: event.cached,
+        failed: event.result.errors.length > 0
+    }, usageLimits));
+}
+
+/**
+ * Counts an analysis by what triggered it
+ * @param trigger The trigger, e.g. save or selection
+ */
+export function recordAnalysisTrigger(trigger: string): void {
+    if (!globalState) {
+        return;
+    }
+    saveUsageStats(recordTriggerUsage(getUsageStats(), trigger));
+}
+
+/**
+ * Clears the usage statistics
+ */
+export function resetUsageStats(): void {
+    saveUsageStats(createUsageStats(Date.now()));
+}
+
+/**
+ * Stops counting dry runs and writes the pending statistics
+ * Used during extension deactivation
+ */
+export function disposeUsage(): void {
+    setDryRunListener(undefined);
+    writeUsageStats();
+    globalState = undefined;
+    usageStats = undefined;
+}
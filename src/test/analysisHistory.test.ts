@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import {
+    appendHistoryEntry,
+    formatHistoryDelta,
+    formatHistoryMarkdown,
+    formatSparkline,
+    hashQuery,
+    HistoryEntry,
+    pruneFileHistories
+} from '../utils/analysisHistory';
+
+describe('Analysis History Tests', () => {
+    const entry = (bytes: number, queryHash: string, timestamp = 0): HistoryEntry => ({ timestamp, bytes, cost: 0, queryHash });
+
+    it('should hash queries independently of whitespace', () => {
+        assert.strictEqual(hashQuery('SELECT 1\n  FROM t'), hashQuery(' SELECT 1 FROM t '));
+        assert.notStrictEqual(hashQuery('SELECT 1 FROM t'), hashQuery('SELECT 2 FROM t'));
+    });
+
+    it('should append entries and return the previous one', () => {
+        const first = appendHistoryEntry([], entry(100, 'a'), 10);
+        assert.strictEqual(first.previous, undefined);
+
+        const second = appendHistoryEntry(first.entries, entry(200, 'b'), 10);
+        assert.strictEqual(second.entries.length, 2);
+        assert.strictEqual(second.previous?.bytes, 100);
+    });
+
+    it('should replace the last entry when an unchanged query is re-run', () => {
+        const entries = [entry(100, 'a', 1), entry(200, 'b', 2)];
+        const result = appendHistoryEntry(entries, entry(200, 'b', 3), 10);
+
+        assert.deepStrictEqual(result.entries.map(e => e.timestamp), [1, 3]);
+        assert.strictEqual(result.previous?.bytes, 100);
+    });
+
+    it('should drop the histories of the least recently analyzed files', () => {
+        const histories = {
+            'file:///old.sql': { file: [entry(1, 'a', 10)] },
+            'file:///recent.sql': { file: [entry(1, 'a', 5)], 'statement:1': [entry(1, 'a', 30)] },
+            'file:///middle.sql': { file: [entry(1, 'a', 20)] }
+        };
+
+        assert.deepStrictEqual(Object.keys(pruneFileHistories(histories, 2)).sort(), ['file:///middle.sql', 'file:///recent.sql']);
+        assert.strictEqual(pruneFileHistories(histories, 3), histories);
+    });
+
+    it('should keep only the most recent entries', () => {
+        const entries = [entry(1, 'a'), entry(2, 'b'), entry(3, 'c')];
+        const result = appendHistoryEntry(entries, entry(4, 'd'), 3);
+
+        assert.deepStrictEqual(result.entries.map(e => e.bytes), [2, 3, 4]);
+    });
+
+    it('should format the change in scan size', () => {
+        const gib = Math.pow(1024, 3);
+        assert.strictEqual(formatHistoryDelta(3.3 * gib, entry(gib, 'a')), '+2.3 GB vs last');
+        assert.strictEqual(formatHistoryDelta(0, entry(1024, 'a')), '-1 KB vs last');
+        assert.strictEqual(formatHistoryDelta(1024, entry(1024, 'a')), 'same as last');
+    });
+
+    it('should draw sparklines scaled between the smallest and largest value', () => {
+        assert.strictEqual(formatSparkline([0, 50, 100]), '▁▅█');
+        assert.strictEqual(formatSparkline([5, 5]), '▁▁');
+    });
+
+    it('should format the history as Markdown with the whole file first', () => {
+        const markdown = formatHistoryMarkdown({
+            'statement:2': [entry(1024, 'b')],
+            'file': [entry(1024, 'a'), entry(2048, 'c')]
+        }, 'USD');
+
+        assert.ok(markdown.indexOf('## Whole file') < markdown.indexOf('## Statement 2'));
+        assert.ok(markdown.includes('| +1 KB vs last | `c` |'));
+    });
+});
@@ -0,0 +1,134 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { CancellationFlag, createAnalysisQueue } from '../utils/analysisQueue';
+
+/**
+ * A job that runs until the test finishes it
+ */
+function createControlledJob(log: string[], name: string) {
+    let finish: () => void = () => undefined;
+    let flag: CancellationFlag | undefined;
+    const job = (jobFlag: CancellationFlag) => new Promise<void>(resolve => {
+        flag = jobFlag;
+        log.push(`start ${name}`);
+        finish = () => {
+            log.push(`finish ${name}`);
+            resolve();
+        };
+    });
+    return { job, finish: () => finish(), isCancelled: () => flag?.isCancelled };
+}
+
+// Lets started jobs and their completion handlers run
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('Analysis Queue Tests', () => {
+    it('should run jobs for different keys concurrently up to the limit', async () => {
+        const log: string[] = [];
+        const queue = createAnalysisQueue(() => 2);
+        const a = createControlledJob(log, 'a');
+        const b = createControlledJob(log, 'b');
+        const c = createControlledJob(log, 'c');
+
+        queue.schedule('a', a.job);
+        queue.schedule('b', b.job);
+        const done = queue.schedule('c', c.job);
+        await flush();
+
+        assert.deepStrictEqual(log, ['start a', 'start b']);
+        assert.strictEqual(queue.pendingCount, 1);
+
+        a.finish();
+        await flush();
+        assert.deepStrictEqual(log, ['start a', 'start b', 'finish a', 'start c']);
+
+        b.finish();
+        c.finish();
+        await done;
+        await flush();
+        assert.strictEqual(queue.runningCount, 0);
+    });
+
+    it('should cancel a running job and keep its slot until it stops', async () => {
+        const log: string[] = [];
+        const queue = createAnalysisQueue(() => 2);
+        const first = createControlledJob(log, 'first');
+        const second = createControlledJob(log, 'second');
+        const other = createControlledJob(log, 'other');
+
+        queue.schedule('doc', first.job);
+        await flush();
+        const secondDone = queue.schedule('doc', second.job);
+        const otherDone = queue.schedule('other', other.job);
+        await flush();
+
+        // The replacement takes the free slot; the cancelled job still holds the other one
+        assert.strictEqual(first.isCancelled(), true);
+        assert.strictEqual(second.isCancelled(), false);
+        assert.deepStrictEqual(log, ['start first', 'start second']);
+        assert.strictEqual(queue.runningCount, 2);
+        assert.strictEqual(queue.pendingCount, 1);
+
+        first.finish();
+        await flush();
+        assert.deepStrictEqual(log, ['start first', 'start second', 'finish first', 'start other']);
+        assert.strictEqual(queue.runningCount, 2);
+
+        second.finish();
+        other.finish();
+        await Promise.all([secondDone, otherDone]);
+        await flush();
+        assert.strictEqual(queue.runningCount, 0);
+    });
+
+    it('should keep only the latest pending job per key', async () => {
+        const log: string[] = [];
+        const queue = createAnalysisQueue(() => 1);
+        const running = createControlledJob(log, 'running');
+        const stale = createControlledJob(log, 'stale');
+        const latest = createControlledJob(log, 'latest');
+
+        queue.schedule('a', running.job);
+        const staleDone = queue.schedule('b', stale.job);
+        queue.schedule('b', latest.job);
+        await staleDone;
+
+        assert.strictEqual(queue.pendingCount, 1);
+        running.finish();
+        await flush();
+        assert.deepStrictEqual(log, ['start running', 'finish running', 'start latest']);
+        latest.finish();
+    });
+
+    it('should drop pending jobs and cancel running jobs of matching keys', async () => {
+        const log: string[] = [];
+        const queue = createAnalysisQueue(() => 1);
+        const running = createControlledJob(log, 'running');
+        const waiting = createControlledJob(log, 'waiting');
+
+        queue.schedule('doc', running.job);
+        const waitingDone = queue.schedule('doc#statement:10', waiting.job);
+        await flush();
+        queue.cancel(key => key.startsWith('doc'));
+        await waitingDone;
+
+        assert.strictEqual(running.isCancelled(), true);
+        assert.strictEqual(queue.pendingCount, 0);
+        running.finish();
+        await flush();
+        assert.deepStrictEqual(log, ['start running', 'finish running']);
+    });
+
+    it('should reject with the error of a failed job and continue with the next one', async () => {
+        const queue = createAnalysisQueue(() => 1);
+
+        await assert.rejects(queue.schedule('a', async () => {
+            throw new Error('failed');
+        }), /failed/);
+        let ran = false;
+        await queue.schedule('b', async () => {
+            ran = true;
+        });
+        assert.strictEqual(ran, true);
+    });
+});
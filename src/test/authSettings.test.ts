@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { AuthSettings, describeCredentialError, parseExternalAccountConfig, validateAuthSettings } from '../utils/authSettings';
+
+describe('Auth Settings Tests', () => {
+    const settings: AuthSettings = {
+        authMode: 'adc',
+        serviceAccountKeyPath: '',
+        impersonateServiceAccount: '',
+        externalAccountCredentialsPath: ''
+    };
+
+    const externalAccount = {
+        type: 'external_account',
+        audience: '//iam.googleapis.com/projects/123/locations/global/workloadIdentityPools/ci/providers/github',
+        subject_token_type: 'urn:ietf:params:oauth:token-type:jwt',
+        token_url: 'https://sts.googleapis.com/v1/token',
+        credential_source: { file: '/var/run/token' }
+    };
+
+    it('should accept ADC and service accounts without further settings', () => {
+        assert.strictEqual(validateAuthSettings(settings), undefined);
+        assert.strictEqual(validateAuthSettings({ ...settings, authMode: 'service_account' }), undefined);
+    });
+
+    it('should require the service account to impersonate', () => {
+        const error = validateAuthSettings({ ...settings, authMode: 'impersonation' });
+
+        assert.ok(error?.includes('bigqueryPreviewer.impersonateServiceAccount'));
+    });
+
+    it('should reject impersonation targets that are not service account emails', () => {
+        assert.ok(validateAuthSettings({ ...settings, authMode: 'impersonation', impersonateServiceAccount: 'me@example.com' }));
+        assert.strictEqual(
+            validateAuthSettings({ ...settings, authMode: 'impersonation', impersonateServiceAccount: 'dry-run@my-project.iam.gserviceaccount.com' }),
+            undefined
+        );
+    });
+
+    it('should require the credential configuration of external accounts', () => {
+        const error = validateAuthSettings({ ...settings, authMode: 'external_account', externalAccountCredentialsPath: ' ' });
+
+        assert.ok(error?.includes('bigqueryPreviewer.externalAccountCredentialsPath'));
+    });
+
+    it('should parse a valid credential configuration', () => {
+        assert.deepStrictEqual(parseExternalAccountConfig(JSON.stringify(externalAccount)), externalAccount);
+    });
+
+    it('should point out service account key files used as credential configuration', () => {
+        assert.throws(
+            () => parseExternalAccountConfig(JSON.stringify({ type: 'service_account', private_key: 'key' })),
+            /use auth mode "service_account"/
+        );
+    });
+
+    it('should report missing fields of the credential configuration', () => {
+        assert.throws(() => parseExternalAccountConfig('{'), /not valid JSON/);
+        assert.throws(() => parseExternalAccountConfig(JSON.stringify({ ...externalAccount, audience: undefined })), /"audience"/);
+        assert.throws(() => parseExternalAccountConfig(JSON.stringify({ ...externalAccount, credential_source: undefined })), /"credential_source"/);
+    });
+
+    it('should add a hint to credential failures of the auth mode', () => {
+        const adcError = 'Could not load the default credentials. Browse to https://cloud.google.com/docs/authentication/getting-started for more information.';
+
+        assert.ok(describeCredentialError('adc', adcError).includes('gcloud auth application-default login'));
+        assert.ok(describeCredentialError('impersonation', '403: unable to impersonate: Permission denied').includes('roles/iam.serviceAccountTokenCreator'));
+        assert.ok(describeCredentialError('external_account', 'Error code invalid_grant: The audience does not match').includes('credential_source'));
+    });
+
+    it('should leave other errors unchanged', () => {
+        const message = 'Syntax error: Unexpected keyword FROM at [3:1]';
+
+        assert.strictEqual(describeCredentialError('impersonation', message), message);
+        assert.strictEqual(describeCredentialError('external_account', message), message);
+    });
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { BatchFileResult, formatBatchReport, formatBatchSummary, sortBatchResults } from '../utils/batchReport';
+
+describe('Batch Report Tests', () => {
+    const results: BatchFileResult[] = [
+        { file: 'b.sql', statements: 1, bytes: 2048, cost: 0.5, tables: ['p.d.t'], statementTypes: ['SELECT'], errors: [] },
+        { file: 'a.sql', statements: 2, bytes: 1024, cost: 1.5, tables: [], statementTypes: ['SELECT', 'MERGE'], errors: [] },
+        { file: 'c, "new".sql', statements: 1, bytes: 0, cost: 0, tables: [], statementTypes: [], errors: ['Syntax error at [1:8]'] }
+    ];
+
+    it('should sort by cost, size, errors and file name', () => {
+        assert.deepStrictEqual(sortBatchResults(results, 'cost').map(r => r.file), ['a.sql', 'b.sql', 'c, "new".sql']);
+        assert.deepStrictEqual(sortBatchResults(results, 'bytes').map(r => r.file), ['b.sql', 'a.sql', 'c, "new".sql']);
+        assert.deepStrictEqual(sortBatchResults(results, 'errors').map(r => r.file), ['c, "new".sql', 'a.sql', 'b.sql']);
+        assert.deepStrictEqual(sortBatchResults(results, 'file').map(r => r.file), ['a.sql', 'b.sql', 'c, "new".sql']);
+    });
+
+    it('should summarize totals and failures', () => {
+        assert.strictEqual(formatBatchSummary(results, 'USD'), '3 files · 3 KB · $2.00 · 1 failed');
+        assert.strictEqual(formatBatchSummary([results[0]], 'USD'), '1 file · 2 KB · $0.50');
+    });
+
+    it('should export CSV with quoted fields', () => {
+        const lines = formatBatchReport(results, 'csv', 'USD').split('\n');
+
+        assert.strictEqual(lines[0], 'file,statements,bytes,cost,tables,statement_types,errors');
+        assert.strictEqual(lines[2], 'a.sql,2,1024,1.5,,SELECT MERGE,');
+        assert.strictEqual(lines[3], '"c, ""new"".sql",1,0,0,,,Syntax error at [1:8]');
+    });
+
+    it('should export JSON and Markdown', () => {
+        assert.deepStrictEqual(JSON.parse(formatBatchReport(results, 'json', 'USD')), results);
+
+        const markdown = formatBatchReport(results, 'markdown', 'USD');
+        assert.ok(markdown.startsWith('**Total:** 3 files'));
+        assert.ok(markdown.includes('| b.sql | 1 | 2 KB | $0.50 | 1 | OK |'));
+    });
+});
@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { parseBigQueryCell, parseParamsDictionary } from '../utils/bigqueryMagic';
+
+describe('BigQuery Magic Tests', () => {
+    it('should strip the magic line and keep the offset of the query', () => {
+        const text = '%%bigquery df --project my-project --location EU\n\nSELECT * FROM sales.orders\n';
+
+        const cell = parseBigQueryCell(text);
+
+        assert.ok(cell);
+        assert.strictEqual(cell.query, 'SELECT * FROM sales.orders');
+        assert.strictEqual(text.substring(cell.queryOffset, cell.queryOffset + cell.query.length), cell.query);
+        assert.deepStrictEqual(cell.context, { projectId: 'my-project', location: 'EU' });
+        assert.deepStrictEqual(cell.parameters, []);
+        assert.strictEqual(cell.legacySql, false);
+    });
+
+    it('should only accept the magic on the first line', () => {
+        assert.strictEqual(parseBigQueryCell('df = client.query("SELECT 1")'), undefined);
+        assert.strictEqual(parseBigQueryCell('# comment\n%%bigquery\nSELECT 1'), undefined);
+        assert.strictEqual(parseBigQueryCell('%%bigquery_other\nSELECT 1'), undefined);
+        assert.strictEqual(parseBigQueryCell('%%bigquery --use_legacy_sql\nSELECT 1')?.legacySql, true);
+    });
+
+    it('should read --params dictionaries with inferred types', () => {
+        const cell = parseBigQueryCell(`%%bigquery result --params {'day': '2024-01-01', "limit": 10, 'rate': 0.5, 'on': True, 'ids': [1, 2],} --project p
+SELECT @day`);
+
+        assert.ok(cell);
+        assert.deepStrictEqual(cell.parameters, [
+            { name: 'day', type: 'STRING', value: '2024-01-01' },
+            { name: 'limit', type: 'INT64', value: 10 },
+            { name: 'rate', type: 'FLOAT64', value: 0.5 },
+            { name: 'on', type: 'BOOL', value: true },
+            { name: 'ids', type: 'ARRAY<INT64>', value: [1, 2] }
+        ]);
+        assert.deepStrictEqual(cell.context, { projectId: 'p' });
+    });
+
+    it('should convert Python strings and skip values without a type', () => {
+        assert.deepStrictEqual(parseParamsDictionary(`{'quote': 'say "hi"', 'name': 'O\\'Brien', 'missing': None, 'nested': {'a': 1}}`), [
+            { name: 'quote', type: 'STRING', value: 'say "hi"' },
+            { name: 'name', type: 'STRING', value: 'O\'Brien' },
+            { name: 'missing', type: 'STRING', value: null }
+        ]);
+        assert.deepStrictEqual(parseParamsDictionary('{not valid'), []);
+    });
+});
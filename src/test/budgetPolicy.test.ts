@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { applyBudgetRule, describeBudgetRule, findBudgetRule, parseBudgetPolicy, parseByteSize } from '../utils/budgetPolicy';
+import { evaluateScan, ScanThresholdOptions } from '../utils/costCalculator';
+
+describe('Budget Policy Tests', () => {
+    const settings: ScanThresholdOptions = {
+        pricePerTiB: 6.25,
+        currency: 'USD',
+        applyMinimumBilling: true,
+        showScanWarnings: true,
+        scanWarningThresholdMB: 100,
+        costWarningThreshold: 0,
+        showCost: true
+    };
+    const policy = parseBudgetPolicy(JSON.stringify({
+        rules: [
+            { pattern: 'reports/**', warn: { bytes: '5 TB', cost: 30 } },
+            { pattern: 'api/**', warn: { bytes: '10 MB' }, error: { bytes: '1 GB', cost: 0.01 }, enforced: true }
+        ]
+    }));
+
+    it('should parse byte sizes with units', () => {
+        assert.strictEqual(parseByteSize(2048), 2048);
+        assert.strictEqual(parseByteSize('500 MB'), 500 * 1024 * 1024);
+        assert.strictEqual(parseByteSize('2.5tb'), 2.5 * Math.pow(1024, 4));
+        assert.throws(() => parseByteSize('lots'), /Invalid size/);
+    });
+
+    it('should reject invalid policies with the rule number', () => {
+        assert.throws(() => parseBudgetPolicy('{}'), /"rules" array/);
+        assert.throws(() => parseBudgetPolicy('{ "rules": [{ "warn": {} }] }'), /Rule 1: "pattern"/);
+        assert.throws(() => parseBudgetPolicy('{ "rules": [{ "pattern": "a", "error": { "cost": -1 } }] }'), /Rule 1: "error.cost"/);
+    });
+
+    it('should use the first matching rule', () => {
+        assert.strictEqual(findBudgetRule(policy, 'reports/daily/revenue.sql')?.pattern, 'reports/**');
+        assert.strictEqual(findBudgetRule(policy, 'api/users.sql')?.pattern, 'api/**');
+        assert.strictEqual(findBudgetRule(policy, 'scratch.sql'), undefined);
+    });
+
+    it('should replace the warning settings with a rule that is not enforced', () => {
+        const thresholds = applyBudgetRule({ ...settings, showScanWarnings: false }, policy.rules[0]);
+
+        assert.strictEqual(thresholds.scanWarningThresholdMB, 5 * 1024 * 1024);
+        assert.strictEqual(thresholds.costWarningThreshold, 30);
+        assert.strictEqual(thresholds.showScanWarnings, false);
+    });
+
+    it('should not let user settings loosen an enforced rule', () => {
+        const loose = applyBudgetRule({ ...settings, scanWarningThresholdMB: 100000, showScanWarnings: false }, policy.rules[1]);
+        assert.strictEqual(loose.scanWarningThresholdMB, 10);
+        assert.strictEqual(loose.showScanWarnings, true);
+
+        const strict = applyBudgetRule({ ...settings, scanWarningThresholdMB: 1 }, policy.rules[1]);
+        assert.strictEqual(strict.scanWarningThresholdMB, 1);
+    });
+
+    it('should flag scans over the error limits', () => {
+        const thresholds = applyBudgetRule(settings, policy.rules[1]);
+
+        assert.strictEqual(evaluateScan(2 * Math.pow(1024, 3), 0, thresholds).exceedsErrorThreshold, true);
+        assert.strictEqual(evaluateScan(1024, 0.02, thresholds).exceedsErrorThreshold, true);
+        assert.strictEqual(evaluateScan(1024, 0, thresholds).exceedsErrorThreshold, false);
+        assert.strictEqual(evaluateScan(2 * Math.pow(1024, 3), 0, settings).exceedsErrorThreshold, false);
+    });
+
+    it('should describe the applied rule', () => {
+        assert.strictEqual(
+            describeBudgetRule(policy.rules[1], 'USD'),
+            'Budget rule "api/**" from .bigquery-previewer.json (enforced): warn above 10 MB, error above 1 GB or $0.01'
+        );
+    });
+});
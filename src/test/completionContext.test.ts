@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { findTableByQualifier, getNamePathAt, resolveTableName } from '../utils/completionContext';
+import { findFromTables } from '../utils/tableReference';
+
+describe('Completion Context Tests', () => {
+    it('should find the name being typed after a backtick or a dot', () => {
+        const sql = 'SELECT * FROM `my-project.sales.ord';
+
+        assert.deepStrictEqual(getNamePathAt(sql, sql.length), {
+            qualifiers: ['my-project', 'sales'],
+            prefix: 'ord',
+            quoted: true,
+            prefixOffset: sql.length - 3
+        });
+        assert.deepStrictEqual(getNamePathAt('SELECT o.', 9), { qualifiers: ['o'], prefix: '', quoted: false, prefixOffset: 9 });
+        assert.deepStrictEqual(getNamePathAt('FROM `', 6), { qualifiers: [], prefix: '', quoted: true, prefixOffset: 6 });
+    });
+
+    it('should not complete in comments, strings and numbers', () => {
+        assert.strictEqual(getNamePathAt('SELECT 1 -- o.', 14), undefined);
+        assert.strictEqual(getNamePathAt("SELECT 'o.", 10), undefined);
+        assert.strictEqual(getNamePathAt('SELECT 1.', 9), undefined);
+    });
+
+    it('should find the tables in FROM and JOIN clauses with their aliases', () => {
+        const tables = findFromTables(`SELECT o.id
+FROM \`my-project.sales.orders\` AS o
+JOIN sales.customers c ON o.customer_id = c.id
+LEFT JOIN items WHERE o.id > 0
+CROSS JOIN UNNEST(o.tags) AS tag`);
+
+        assert.deepStrictEqual(tables, [
+            { parts: ['my-project', 'sales', 'orders'], alias: 'o' },
+            { parts: ['sales', 'customers'], alias: 'c' },
+            { parts: ['items'], alias: undefined }
+        ]);
+    });
+
+    it('should find a FROM table by alias or by name', () => {
+        const tables = [
+            { parts: ['sales', 'orders'], alias: 'o' },
+            { parts: ['sales', 'customers'] }
+        ];
+
+        assert.strictEqual(findTableByQualifier(tables, 'O'), tables[0]);
+        assert.strictEqual(findTableByQualifier(tables, 'customers'), tables[1]);
+        assert.strictEqual(findTableByQualifier(tables, 'orders'), undefined);
+    });
+
+    it('should complete table names with the default project and dataset', () => {
+        assert.deepStrictEqual(resolveTableName(['p', 'd', 't'], undefined), { projectId: 'p', datasetId: 'd', tableId: 't' });
+        assert.deepStrictEqual(resolveTableName(['d', 't'], 'p'), { projectId: 'p', datasetId: 'd', tableId: 't' });
+        assert.deepStrictEqual(resolveTableName(['t'], 'p', { datasetId: 'd' }), { projectId: 'p', datasetId: 'd', tableId: 't' });
+        assert.deepStrictEqual(resolveTableName(['t'], 'p', { projectId: 'other', datasetId: 'd' }), { projectId: 'other', datasetId: 'd', tableId: 't' });
+        assert.strictEqual(resolveTableName(['d', 't'], undefined), undefined);
+        assert.strictEqual(resolveTableName(['t'], 'p'), undefined);
+    });
+});
@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { mapWithConcurrency } from '../utils/concurrency';
+
+describe('Concurrency Tests', () => {
+    const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    it('should keep results in order and respect the limit', async () => {
+        let running = 0;
+        let maxRunning = 0;
+
+        const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, index) => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await delay(ms);
+            running--;
+            return index;
+        });
+
+        assert.deepStrictEqual(results, [0, 1, 2, 3, 4]);
+        assert.strictEqual(maxRunning, 2);
+    });
+
+    it('should not start new items once cancelled', async () => {
+        let cancelled = false;
+
+        const results = await mapWithConcurrency([1, 2, 3, 4], 1, async item => {
+            cancelled = item === 2;
+            return item;
+        }, () => cancelled);
+
+        assert.deepStrictEqual(results, [1, 2, undefined, undefined]);
+    });
+});
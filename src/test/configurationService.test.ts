@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { applyProfile, BigQueryPreviewerConfig, ConnectionProfile } from '../services/configurationService';
+
+describe('Connection Profile Tests', () => {
+    const base = {
+        authMode: 'adc',
+        serviceAccountKeyPath: '',
+        impersonateServiceAccount: '',
+        externalAccountCredentialsPath: '',
+        projectId: 'dev-project',
+        location: 'US',
+        scanWarningThresholdMB: 100,
+        costWarningThreshold: 0,
+        currency: 'USD'
+    } as BigQueryPreviewerConfig;
+
+    it('should replace only the settings a profile defines', () => {
+        const config = applyProfile(base, {
+            name: 'prod',
+            authMode: 'service_account',
+            serviceAccountKeyPath: '/keys/prod.json',
+            projectId: 'prod-project',
+            scanWarningThresholdMB: 10
+        });
+
+        assert.strictEqual(config.authMode, 'service_account');
+        assert.strictEqual(config.serviceAccountKeyPath, '/keys/prod.json');
+        assert.strictEqual(config.projectId, 'prod-project');
+        assert.strictEqual(config.scanWarningThresholdMB, 10);
+        assert.strictEqual(config.location, 'US');
+        assert.strictEqual(config.currency, 'USD');
+    });
+
+    it('should ignore settings that profiles cannot override', () => {
+        const profile: ConnectionProfile & { currency: string } = { name: 'odd', currency: 'EUR' };
+        const config = applyProfile(base, profile);
+
+        assert.strictEqual(config.currency, 'USD');
+    });
+
+    it('should keep the base settings without a profile', () => {
+        assert.strictEqual(applyProfile(base, undefined), base);
+    });
+});
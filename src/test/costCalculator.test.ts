@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { calculateBilledBytes, estimateCost, evaluateScan, formatScanSummary, ScanThresholdOptions } from '../utils/costCalculator';
+import { formatCost } from '../utils/formatters';
+
+describe('Cost Estimation Tests', () => {
+    const options: ScanThresholdOptions = {
+        pricePerTiB: 6.25,
+        currency: 'USD',
+        applyMinimumBilling: true,
+        showScanWarnings: true,
+        scanWarningThresholdMB: 100,
+        costWarningThreshold: 1,
+        showCost: true
+    };
+
+    it('should apply the 10 MB minimum per referenced table', () => {
+        const tenMB = 10 * 1024 * 1024;
+
+        assert.strictEqual(calculateBilledBytes(1024, 2, true), 2 * tenMB);
+        assert.strictEqual(calculateBilledBytes(1024, 2, false), 1024);
+        assert.strictEqual(calculateBilledBytes(5 * tenMB, 2, true), 5 * tenMB);
+    });
+
+    it('should estimate cost from the price per TiB', () => {
+        const oneTiB = Math.pow(1024, 4);
+
+        assert.strictEqual(estimateCost(oneTiB, 1, options), 6.25);
+        assert.strictEqual(estimateCost(2 * oneTiB, 1, { ...options, pricePerTiB: 5 }), 10);
+    });
+
+    it('should flag scans above the cost threshold', () => {
+        const evaluation = evaluateScan(1024, 2.5, options);
+
+        assert.strictEqual(evaluation.exceedsBytesThreshold, false);
+        assert.strictEqual(evaluation.exceedsCostThreshold, true);
+        assert.strictEqual(formatScanSummary(evaluation, options), 'Scan: 1 KB · $2.50 (> $1.00)');
+    });
+
+    it('should not flag cost when the cost threshold is disabled', () => {
+        const evaluation = evaluateScan(1024, 2.5, { ...options, costWarningThreshold: 0 });
+
+        assert.strictEqual(evaluation.exceedsCostThreshold, false);
+    });
+
+    it('should format small and unknown-currency amounts', () => {
+        assert.strictEqual(formatCost(0.0001, 'USD'), '< $0.01');
+        assert.strictEqual(formatCost(0, 'USD'), '$0.00');
+        assert.strictEqual(formatCost(1.5, 'XYZ1'), '1.50 XYZ1');
+    });
+});
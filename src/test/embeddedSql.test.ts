@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { clipToEmbeddedSql, findEmbeddedSql, mayContainEmbeddedSql } from '../utils/embeddedSql';
+
+const pythonImport = 'from google.cloud import bigquery\n';
+const scriptImport = 'import { BigQuery } from \'@google-cloud/bigquery\';\n';
+
+describe('Embedded SQL Tests', () => {
+    it('should find the query of Python client calls with its offsets', () => {
+        const code = `from google.cloud import bigquery
+
+client = bigquery.Client()
+rows = client.query("""
+    SELECT id FROM \`p.sales.orders\`
+""").result()
+df = pandas_gbq.read_gbq(query='SELECT 1')
+print("SELECT not a query")
+`;
+
+        const statements = findEmbeddedSql(code, 'python');
+
+        assert.deepStrictEqual(statements.map(statement => statement.text), ['SELECT id FROM `p.sales.orders`', 'SELECT 1']);
+        statements.forEach(statement => assert.strictEqual(code.substring(statement.startOffset, statement.endOffset), statement.text));
+    });
+
+    it('should find strings after a marker comment', () => {
+        const code = `# bigquery-sql
+DAILY = r'''SELECT day FROM sales.daily'''
+
+# bigquery-sql
+
+LATER = "SELECT 2"
+`;
+
+        assert.deepStrictEqual(findEmbeddedSql(code, 'python').map(statement => statement.text), ['SELECT day FROM sales.daily']);
+        assert.deepStrictEqual(
+            findEmbeddedSql('const q = /* bigquery-sql */ `SELECT 3`;\n// bigquery-sql\nconst r = "SELECT 4";', 'typescript').map(statement => statement.text),
+            ['SELECT 3', 'SELECT 4']
+        );
+    });
+
+    it('should find the query of Node.js client calls and options objects', () => {
+        const code = `${scriptImport}const [rows] = await bigquery.query(\`SELECT a
+FROM sales.orders\`);
+const [job] = await bigquery.createQueryJob({ query: 'SELECT b', location: 'US' });
+console.log('SELECT c');`;
+
+        assert.deepStrictEqual(findEmbeddedSql(code, 'typescript').map(statement => statement.text), ['SELECT a\nFROM sales.orders', 'SELECT b']);
+    });
+
+    it('should skip strings with interpolation and strings in comments', () => {
+        assert.deepStrictEqual(findEmbeddedSql('client.query(f"SELECT {column} FROM t")', 'python'), []);
+        assert.deepStrictEqual(findEmbeddedSql('bigquery.query(`SELECT * FROM ${table}`)', 'javascript'), []);
+        assert.deepStrictEqual(findEmbeddedSql('// bigquery.query("SELECT 1")', 'typescript'), []);
+        assert.deepStrictEqual(findEmbeddedSql('client.query("SELECT 1")', 'sql'), []);
+    });
+
+    it('should skip strings with escape sequences except raw Python strings', () => {
+        assert.deepStrictEqual(findEmbeddedSql(scriptImport + 'bigquery.query(\'SELECT * FROM t WHERE s = \\\'x\\\'\')', 'javascript'), []);
+        assert.deepStrictEqual(findEmbeddedSql(pythonImport + 'client.query("SELECT * FROM t WHERE s = \\"a\\"")', 'python'), []);
+        assert.deepStrictEqual(findEmbeddedSql(pythonImport + 'client.query("SELECT 1\\nUNION ALL SELECT 2")', 'python'), []);
+        assert.deepStrictEqual(
+            findEmbeddedSql(pythonImport + 'client.query(r"SELECT REGEXP_CONTAINS(s, \'\\\\d\') FROM t")', 'python').map(statement => statement.text),
+            ['SELECT REGEXP_CONTAINS(s, \'\\\\d\') FROM t']
+        );
+    });
+
+    it('should limit a selection to the SQL string it overlaps', () => {
+        const code = pythonImport + 'rows = client.query("SELECT 1").result()';
+        const statements = findEmbeddedSql(code, 'python');
+        const start = code.indexOf('SELECT');
+
+        assert.deepStrictEqual(clipToEmbeddedSql(statements, 0, code.length), { startOffset: start, endOffset: start + 'SELECT 1'.length });
+        assert.deepStrictEqual(clipToEmbeddedSql(statements, start, start + 'SELECT'.length), { startOffset: start, endOffset: start + 'SELECT'.length });
+        assert.strictEqual(clipToEmbeddedSql(statements, 0, code.indexOf('(')), undefined);
+    });
+
+    it('should only treat query calls as SQL in files that import the BigQuery client', () => {
+        assert.deepStrictEqual(findEmbeddedSql('import pandas as pd\nadults = df.query("age > 30")', 'python'), []);
+        assert.deepStrictEqual(
+            findEmbeddedSql('const { Pool } = require(\'pg\');\nconst rows = await pool.query("SELECT * FROM users WHERE id = $1", [id]);', 'javascript'),
+            []
+        );
+        assert.deepStrictEqual(findEmbeddedSql('df = pd.read_gbq("SELECT 1")', 'python').map(statement => statement.text), ['SELECT 1']);
+        assert.deepStrictEqual(
+            findEmbeddedSql('const { BigQuery } = require(\'@google-cloud/bigquery\');\nawait bigquery.query("SELECT 2");', 'javascript').map(statement => statement.text),
+            ['SELECT 2']
+        );
+    });
+
+    it('should skip regular expression literals and unclosed quotes', () => {
+        const code = `${scriptImport}const re = /'/;
+const quote = /["\\/]+/g.test(name) ? "'" : '"';
+const broken = 'unclosed
+await bigquery.query("SELECT 1");`;
+
+        assert.deepStrictEqual(findEmbeddedSql(code, 'typescript').map(statement => statement.text), ['SELECT 1']);
+        assert.deepStrictEqual(findEmbeddedSql(`${scriptImport}const half = total / 2; const q = bigquery.query('SELECT 2');`, 'javascript').map(statement => statement.text), ['SELECT 2']);
+    });
+
+    it('should check cheaply for a marker or client import', () => {
+        assert.strictEqual(mayContainEmbeddedSql(pythonImport, 'python'), true);
+        assert.strictEqual(mayContainEmbeddedSql('// bigquery-sql', 'typescript'), true);
+        assert.strictEqual(mayContainEmbeddedSql('const rows = await pool.query("SELECT 1");', 'javascript'), false);
+        assert.strictEqual(mayContainEmbeddedSql(pythonImport, 'sql'), false);
+    });
+});
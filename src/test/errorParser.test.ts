@@ -0,0 +1,22 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { parseErrorLocation, stripErrorLocation } from '../utils/errorParser';
+
+describe('BigQuery Error Parser Tests', () => {
+    it('should parse the line and column of an error', () => {
+        const location = parseErrorLocation('Unrecognized name: foo at [12:5]');
+
+        assert.deepStrictEqual(location, { line: 12, column: 5 });
+    });
+
+    it('should return undefined for errors without a position', () => {
+        assert.strictEqual(parseErrorLocation('Access Denied: Project my-project'), undefined);
+    });
+
+    it('should strip the position from the message', () => {
+        assert.strictEqual(
+            stripErrorLocation('Syntax error: Unexpected keyword FROM at [3:1]'),
+            'Syntax error: Unexpected keyword FROM'
+        );
+    });
+});
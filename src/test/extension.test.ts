@@ -1,8 +1,9 @@
 import * as assert from 'assert';
 import * as sinon from 'sinon';
 import { BigQuery } from '@google-cloud/bigquery';
-import { performDryRun } from '../services/bigQueryService';
+import { performDryRun, getDryRunStats, resetDryRunTracking } from '../services/bigQueryService';
 import { analyzeQuery } from '../services/analysisService';
+import { handleSelectionChange } from '../services/selectionService';
 import { hasDocumentChanged, isEligibleForAnalysis } from '../utils/documentUtils';
 import { describe, it, beforeEach, afterEach } from 'mocha';
 import * as vscode from 'vscode';
@@ -62,6 +63,38 @@ describe('BigQuery Previewer Tests', () => {
         assert.deepStrictEqual(result.errors, ['Syntax error']);
     });
 
+    it('should serve repeated dry runs of the same query from the cache', async () => {
+        getConfigurationStub.returns({
+            get: (key: string) => {
+                if (key === 'authMode') {
+                    return 'adc';
+                }
+                if (key === 'cacheTtlSeconds') {
+                    return 300;
+                }
+                if (key === 'cacheMaxEntries') {
+                    return 10;
+                }
+                return undefined;
+            },
+            has: () => true,
+            inspect: () => undefined,
+            update: async () => undefined,
+        } as unknown as vscode.WorkspaceConfiguration);
+        resetDryRunTracking();
+
+        const first = await performDryRun('SELECT 1 AS cached_column');
+        const second = await performDryRun('SELECT 1 AS cached_column   \r\n');
+
+        sinon.assert.calledOnce(bigQueryStub);
+        assert.strictEqual(first.cachedAt, undefined);
+        assert.strictEqual(second.scannedBytes, first.scannedBytes);
+        assert.ok(second.cachedAt);
+        assert.strictEqual(getDryRunStats().cacheHits, 1);
+
+        resetDryRunTracking();
+    });
+
     it('should analyze a valid .sql file', async () => {
         const documentStub = {
             languageId: 'sql',
@@ -228,12 +261,40 @@ describe('BigQuery Previewer Tests', () => {
             enableNotifications: false,
             // Add missing properties to match BigQueryPreviewerConfig interface
             serviceAccountKeyPath: '',
+            impersonateServiceAccount: '',
+            externalAccountCredentialsPath: '',
+            projectId: '',
+            billingProjectId: '',
+            location: '',
+            defaultDataset: '',
             scanWarningThresholdMB: 100,
             autoRunOnSave: true, 
             autoRunOnOpen: true,
             showScanWarnings: true,
             changeDebounceDelayMs: 1500,
-            trackDryRuns: false
+            trackDryRuns: false,
+            analyzeStatementsSeparately: true,
+            enableCodeLens: true,
+            enableDiagnostics: true,
+            showCost: true,
+            pricePerTiB: 6.25,
+            currency: 'USD',
+            applyMinimumBilling: true,
+            costWarningThreshold: 0,
+            cacheTtlSeconds: 300,
+            cacheMaxEntries: 200,
+            queryParameters: [],
+            destructiveStatementWarnings: ['DELETE_WITHOUT_WHERE', 'DROP', 'TRUNCATE', 'CREATE_OR_REPLACE'],
+            batchInclude: '**/*.sql',
+            batchExclude: '**/{node_modules,.git}/**',
+            batchConcurrency: 4,
+            profiles: [],
+            maxConcurrentAnalyses: 3,
+            pruningAdvice: true,
+            enableCompletion: true,
+            showHeadDelta: true,
+            embeddedSql: true,
+            notebookCells: true
         });
         
         const onDidChangeTextDocumentStub = sinon.stub(vscode.workspace, 'onDidChangeTextDocument');
@@ -293,12 +354,40 @@ describe('BigQuery Previewer Tests', () => {
             enableNotifications: false,
             // Add missing properties to match BigQueryPreviewerConfig interface
             serviceAccountKeyPath: '',
+            impersonateServiceAccount: '',
+            externalAccountCredentialsPath: '',
+            projectId: '',
+            billingProjectId: '',
+            location: '',
+            defaultDataset: '',
             scanWarningThresholdMB: 100,
             autoRunOnSave: true, 
             autoRunOnChange: true,
             showScanWarnings: true,
             changeDebounceDelayMs: 1500,
-            trackDryRuns: false
+            trackDryRuns: false,
+            analyzeStatementsSeparately: true,
+            enableCodeLens: true,
+            enableDiagnostics: true,
+            showCost: true,
+            pricePerTiB: 6.25,
+            currency: 'USD',
+            applyMinimumBilling: true,
+            costWarningThreshold: 0,
+            cacheTtlSeconds: 300,
+            cacheMaxEntries: 200,
+            queryParameters: [],
+            destructiveStatementWarnings: ['DELETE_WITHOUT_WHERE', 'DROP', 'TRUNCATE', 'CREATE_OR_REPLACE'],
+            batchInclude: '**/*.sql',
+            batchExclude: '**/{node_modules,.git}/**',
+            batchConcurrency: 4,
+            profiles: [],
+            maxConcurrentAnalyses: 3,
+            pruningAdvice: true,
+            enableCompletion: true,
+            showHeadDelta: true,
+            embeddedSql: true,
+            notebookCells: true
         });
 
         const onDidOpenTextDocumentStub = sinon.stub(vscode.workspace, 'onDidOpenTextDocument');
@@ -357,4 +446,45 @@ describe('BigQuery Previewer Tests', () => {
             assert.fail('Status bar implementation threw an error');
         }
     });
+
+    it('should not dry run host code selected in a file with embedded SQL', async () => {
+        const text = 'from google.cloud import bigquery\nrows = client.query("SELECT 1 AS embedded_column").result()';
+        const documentStub = {
+            languageId: 'python',
+            fileName: 'query.py',
+            getText: (range?: vscode.Range) => range ? text.substring(range.start.character, range.end.character) : text,
+            offsetAt: (position: vscode.Position) => position.character,
+            positionAt: (offset: number) => new vscode.Position(0, offset),
+            isDirty: false,
+            version: 1,
+            uri: vscode.Uri.file('/workspace/query.py'),
+        } as unknown as vscode.TextDocument;
+        // The selection covers "from google.c", which is Python, not SQL
+        const editorStub = { document: documentStub, selection: new vscode.Selection(0, 0, 0, 13) } as unknown as vscode.TextEditor;
+        getConfigurationStub.returns({
+            get: (key: string) => {
+                if (key === 'authMode') {
+                    return 'adc';
+                }
+                if (key === 'enableStatusBar' || key === 'embeddedSql') {
+                    return true;
+                }
+                return undefined;
+            },
+            has: () => true,
+            inspect: () => undefined,
+            update: async () => undefined,
+        } as unknown as vscode.WorkspaceConfiguration);
+        sinon.stub(vscode.window, 'activeTextEditor').value(editorStub);
+        const clock = sinon.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+
+        handleSelectionChange(editorStub, true);
+        await clock.tickAsync(1000);
+        clock.restore();
+        sinon.assert.notCalled(bigQueryStub);
+
+        await analyzeQuery(documentStub, editorStub, 0, 'command');
+        sinon.assert.neverCalledWithMatch(bigQueryStub, { query: sinon.match('client') });
+        sinon.assert.calledWithMatch(bigQueryStub, { query: 'SELECT 1 AS embedded_column' });
+    });
 });
@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { matchesGlob } from '../utils/globMatcher';
+
+describe('Glob Matcher Tests', () => {
+    it('should match any number of directories with **', () => {
+        assert.ok(matchesGlob('a.sql', '**/*.sql'));
+        assert.ok(matchesGlob('queries/daily/a.sql', '**/*.sql'));
+        assert.ok(!matchesGlob('queries/a.sqlx', '**/*.sql'));
+    });
+
+    it('should keep * and ? within a path segment', () => {
+        assert.ok(matchesGlob('queries/a.sql', 'queries/*.sql'));
+        assert.ok(!matchesGlob('queries/daily/a.sql', 'queries/*.sql'));
+        assert.ok(matchesGlob('q1.sql', 'q?.sql'));
+    });
+
+    it('should support alternatives and escape regular expression characters', () => {
+        assert.ok(matchesGlob('node_modules/x/a.sql', '**/{node_modules,.git}/**'));
+        assert.ok(matchesGlob('src/.git/', '**/{node_modules,.git}/**'));
+        assert.ok(!matchesGlob('src/agit/a.sql', '**/{node_modules,.git}/**'));
+        assert.ok(matchesGlob('reports (old)/a+b.sql', 'reports (old)/a+b.sql'));
+    });
+
+    it('should accept Windows path separators', () => {
+        assert.ok(matchesGlob('queries\\daily\\a.sql', 'queries/**/*.sql'));
+    });
+});
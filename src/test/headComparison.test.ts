@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { diffSchemas, formatComparisonMarkdown, formatHeadDelta, ScanSide } from '../utils/headComparison';
+
+describe('HEAD Comparison Tests', () => {
+    const gib = 1024 * 1024 * 1024;
+
+    it('should format the scan size difference to HEAD', () => {
+        assert.strictEqual(formatHeadDelta(gib, 3.5 * gib), '+2.5 GB vs HEAD');
+        assert.strictEqual(formatHeadDelta(2048, 1024), '-1 KB vs HEAD');
+        assert.strictEqual(formatHeadDelta(1024, 1024), 'same as HEAD');
+    });
+
+    it('should list added, changed and removed columns including nested fields', () => {
+        const before = [
+            { name: 'id', type: 'INTEGER', mode: 'REQUIRED' },
+            { name: 'amount', type: 'INTEGER', mode: 'NULLABLE' },
+            { name: 'address', type: 'RECORD', mode: 'NULLABLE', fields: [{ name: 'city', type: 'STRING', mode: 'NULLABLE' }] }
+        ];
+        const after = [
+            { name: 'id', type: 'INTEGER', mode: 'REQUIRED' },
+            { name: 'amount', type: 'NUMERIC', mode: 'NULLABLE' },
+            { name: 'address', type: 'RECORD', mode: 'NULLABLE', fields: [{ name: 'zip', type: 'STRING', mode: 'NULLABLE' }] }
+        ];
+
+        assert.deepStrictEqual(diffSchemas(before, after), [
+            { path: 'amount', before: 'INTEGER NULLABLE', after: 'NUMERIC NULLABLE' },
+            { path: 'address.zip', before: undefined, after: 'STRING NULLABLE' },
+            { path: 'address.city', before: 'STRING NULLABLE' }
+        ]);
+        assert.deepStrictEqual(diffSchemas(after, after), []);
+    });
+
+    it('should format the comparison side by side', () => {
+        const head: ScanSide = {
+            bytes: gib,
+            cost: 0.01,
+            statementTypes: ['SELECT'],
+            tables: ['p.sales.orders'],
+            schema: [{ name: 'id', type: 'INTEGER', mode: 'NULLABLE' }],
+            errors: []
+        };
+        const working: ScanSide = {
+            bytes: 3 * gib,
+            cost: 0.02,
+            statementTypes: ['SELECT'],
+            tables: ['p.sales.customers', 'p.sales.orders'],
+            schema: [{ name: 'id', type: 'INTEGER', mode: 'NULLABLE' }, { name: 'name', type: 'STRING', mode: 'NULLABLE' }],
+            errors: []
+        };
+
+        const markdown = formatComparisonMarkdown('`orders.sql`', head, working, 'USD');
+
+        assert.ok(markdown.startsWith('# Compare with HEAD: `orders.sql`'));
+        assert.ok(markdown.includes('| Scan | 1 GB | 3 GB | +2 GB |'));
+        assert.ok(markdown.includes('| Cost | $0.01 | $0.02 | +$0.01 |'));
+        assert.ok(markdown.includes('| `p.sales.customers` |  | ✓ |'));
+        assert.ok(markdown.includes('| `p.sales.orders` | ✓ | ✓ |'));
+        assert.ok(markdown.includes('| `name` | — | STRING NULLABLE |'));
+    });
+
+    it('should show missing values when the statement does not exist at HEAD', () => {
+        const working: ScanSide = { bytes: 0, cost: 0, statementTypes: [], tables: [], schema: [], errors: ['Table not found'] };
+
+        const markdown = formatComparisonMarkdown('`a.sql` statement 2', undefined, working, 'USD');
+
+        assert.ok(markdown.includes('| Scan | — | 0 B | — |'));
+        assert.ok(markdown.includes('| Result | — | Error: Table not found | |'));
+        assert.ok(markdown.includes('No tables referenced.'));
+        assert.ok(markdown.includes('No schema changes.'));
+    });
+});
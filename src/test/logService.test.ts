@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { formatErrorForLog, logger, LogSink, setLogSink } from '../services/logService';
+
+describe('Log Service Tests', () => {
+    it('should send messages to the sink at their level', () => {
+        const messages: string[] = [];
+        const record = (level: string) => (message: string) => messages.push(`${level}: ${message}`);
+        const sink: LogSink = {
+            trace: record('trace'),
+            debug: record('debug'),
+            info: record('info'),
+            warn: record('warn'),
+            error: record('error')
+        };
+
+        setLogSink(sink);
+        try {
+            logger.info('Analysis requested');
+            logger.error('Dry run failed');
+        } finally {
+            setLogSink(undefined);
+        }
+
+        assert.deepStrictEqual(messages, ['info: Analysis requested', 'error: Dry run failed']);
+    });
+
+    it('should include the status code and errors returned by BigQuery', () => {
+        const error = Object.assign(new Error('Unrecognized name: foo at [1:8]'), {
+            code: 400,
+            errors: [{ message: 'Unrecognized name: foo at [1:8]', domain: 'global', reason: 'invalidQuery', location: 'q' }]
+        });
+
+        const formatted = formatErrorForLog(error);
+
+        assert.ok(formatted.startsWith('Unrecognized name: foo at [1:8]\n'));
+        assert.deepStrictEqual(JSON.parse(formatted.substring(formatted.indexOf('\n') + 1)), {
+            code: 400,
+            errors: error.errors
+        });
+    });
+
+    it('should log only the message of errors without details', () => {
+        assert.strictEqual(formatErrorForLog(new Error('socket hang up')), 'socket hang up');
+        assert.strictEqual(formatErrorForLog('timeout'), 'timeout');
+    });
+});
@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { findFilteredColumns, getPruningAdvice } from '../utils/pruningAdvisor';
+import { parseTableMetadata, TableMetadata } from '../utils/tableMetadata';
+
+describe('Pruning Advisor Tests', () => {
+    const events: TableMetadata = {
+        type: 'TABLE',
+        partitioning: { type: 'DAY', field: 'event_date' },
+        requirePartitionFilter: false,
+        clusteringFields: ['user_id', 'country'],
+        schema: []
+    };
+
+    it('should find columns compared to constants in WHERE and ON clauses only', () => {
+        const filters = findFilteredColumns(`SELECT country FROM t AS e
+JOIN u ON e.user_id = u.id AND u.active = TRUE
+WHERE \`e\`.event_date >= '2024-01-01' -- AND other_col = 1
+    AND (e.day BETWEEN @start AND DATE_SUB(CURRENT_DATE(), INTERVAL 1 DAY) OR NOT e.country IN ('NL', 'BE'))
+GROUP BY country`);
+
+        assert.deepStrictEqual(filters, [
+            { column: 'active', qualifier: 'u' },
+            { column: 'event_date', qualifier: 'e' },
+            { column: 'day', qualifier: 'e' },
+            { column: 'country', qualifier: 'e' }
+        ]);
+    });
+
+    it('should not count a join on the partitioning column as a partition filter', () => {
+        const other: TableMetadata = { ...events, clusteringFields: [] };
+        const advice = getPruningAdvice(
+            'SELECT * FROM ds.events a JOIN ds.sessions AS b ON a.event_date = b.event_date WHERE b.event_date = "2024-01-01" AND user_id = 1',
+            [{ tableId: 'events', metadata: other }, { tableId: 'sessions', metadata: other }]
+        );
+
+        assert.deepStrictEqual(advice.map(item => item.message), ['events is partitioned by event_date but no filter found']);
+    });
+
+    it('should report a partitioned table without a partition filter', () => {
+        const sql = 'SELECT * FROM `proj.ds.events` WHERE user_id = 1';
+
+        const advice = getPruningAdvice(sql, [{ tableId: 'events', metadata: events }]);
+
+        assert.deepStrictEqual(advice, [{ message: 'events is partitioned by event_date but no filter found', offset: sql.indexOf('events') }]);
+    });
+
+    it('should report a clustered table without a filter on its first clustering column', () => {
+        const advice = getPruningAdvice('SELECT * FROM ds.events WHERE event_date = CURRENT_DATE() AND country = "NL"', [{ tableId: 'events', metadata: events }]);
+
+        assert.deepStrictEqual(advice.map(item => item.message), ['events is clustered by user_id, country but no filter on user_id found']);
+    });
+
+    it('should not report tables that are filtered on their partitioning and clustering columns', () => {
+        const advice = getPruningAdvice(
+            'SELECT * FROM ds.events e WHERE e.EVENT_DATE = CURRENT_DATE() AND e.user_id = 1',
+            [{ tableId: 'events', metadata: events }]
+        );
+
+        assert.deepStrictEqual(advice, []);
+    });
+
+    it('should accept partition pseudo columns for ingestion-time partitioned tables', () => {
+        const metadata: TableMetadata = { partitioning: { type: 'DAY' }, requirePartitionFilter: false, clusteringFields: [], schema: [] };
+
+        assert.deepStrictEqual(getPruningAdvice('SELECT * FROM ds.logs WHERE _PARTITIONDATE = "2024-01-01"', [{ tableId: 'logs', metadata }]), []);
+        assert.deepStrictEqual(
+            getPruningAdvice('SELECT * FROM ds.logs', [{ tableId: 'logs', metadata }]).map(item => item.message),
+            ['logs is partitioned by ingestion time but no filter on _PARTITIONTIME or _PARTITIONDATE found']
+        );
+    });
+
+    it('should read partitioning and clustering from the table resource', () => {
+        const metadata = parseTableMetadata({
+            type: 'TABLE',
+            timePartitioning: { type: 'DAY', field: 'event_date', requirePartitionFilter: true },
+            clustering: { fields: ['user_id'] }
+        });
+
+        assert.deepStrictEqual(metadata.partitioning, { type: 'DAY', field: 'event_date' });
+        assert.strictEqual(metadata.requirePartitionFilter, true);
+        assert.deepStrictEqual(metadata.clusteringFields, ['user_id']);
+        assert.deepStrictEqual(parseTableMetadata({ type: 'TABLE', rangePartitioning: { field: 'customer_id' } }).partitioning, { type: 'RANGE', field: 'customer_id' });
+        assert.deepStrictEqual(parseTableMetadata({ type: 'VIEW' }).clusteringFields, []);
+    });
+});
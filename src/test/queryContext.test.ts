@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { getDefaultDatasetReference, getJobProjectId, parseContextDirectives, resolveQueryContext, QueryContext } from '../utils/queryContext';
+
+describe('Query Context Tests', () => {
+    const settings: QueryContext = {
+        projectId: 'settings-project',
+        billingProjectId: '',
+        location: 'US',
+        defaultDataset: ''
+    };
+
+    it('should let header directives override settings', () => {
+        const sql = '-- @location EU\n-- @defaultDataset other-project.reporting\nSELECT 1;\n-- @projectId ignored';
+        const context = resolveQueryContext(settings, parseContextDirectives(sql));
+
+        assert.deepStrictEqual(context, {
+            projectId: 'settings-project',
+            billingProjectId: '',
+            location: 'EU',
+            defaultDataset: 'other-project.reporting'
+        });
+    });
+
+    it('should resolve the default dataset reference', () => {
+        assert.deepStrictEqual(
+            getDefaultDatasetReference({ ...settings, defaultDataset: 'reporting' }),
+            { projectId: 'settings-project', datasetId: 'reporting' }
+        );
+        assert.deepStrictEqual(
+            getDefaultDatasetReference({ ...settings, defaultDataset: 'other:reporting' }),
+            { projectId: 'other', datasetId: 'reporting' }
+        );
+        assert.strictEqual(getDefaultDatasetReference(settings), undefined);
+    });
+
+    it('should create jobs in the billing project when set', () => {
+        assert.strictEqual(getJobProjectId(settings), 'settings-project');
+        assert.strictEqual(getJobProjectId({ ...settings, billingProjectId: 'billing' }), 'billing');
+        assert.strictEqual(getJobProjectId({ ...settings, projectId: '' }), undefined);
+    });
+});
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { bindParameters, findParameterUsages, mergeParameters, parseParameterHeader } from '../utils/queryParameters';
+
+describe('Query Parameter Tests', () => {
+    it('should parse parameter declarations from the header comment', () => {
+        const sql = [
+            "-- @param start_date DATE '2024-01-01'",
+            '-- @param ids ARRAY<INT64> [1, 2, 3]',
+            '# @param ? STRING "abc"',
+            'SELECT * FROM t WHERE d >= @start_date;',
+            '-- @param ignored INT64 1'
+        ].join('\n');
+
+        assert.deepStrictEqual(parseParameterHeader(sql), [
+            { name: 'start_date', type: 'DATE', value: '2024-01-01' },
+            { name: 'ids', type: 'ARRAY<INT64>', value: [1, 2, 3] },
+            { name: undefined, type: 'STRING', value: 'abc' }
+        ]);
+    });
+
+    it('should find parameter usages outside strings, comments and system variables', () => {
+        const sql = "SELECT @a, '@b ?', @@project_id -- @c ?\nFROM t WHERE x = ?";
+        const usages = findParameterUsages(sql);
+
+        assert.deepStrictEqual(usages.map(u => u.name), ['a', undefined]);
+        assert.strictEqual(sql[usages[1].offset], '?');
+    });
+
+    it('should let header declarations override settings', () => {
+        const merged = mergeParameters(
+            [{ name: 'a', type: 'INT64', value: 1 }, { name: '?', type: 'STRING', value: 'x' }],
+            [{ name: 'a', type: 'INT64', value: 2 }]
+        );
+
+        assert.deepStrictEqual(merged, [
+            { name: undefined, type: 'STRING', value: 'x' },
+            { name: 'a', type: 'INT64', value: 2 }
+        ]);
+    });
+
+    it('should bind named parameters and report undeclared ones', () => {
+        const bindings = bindParameters(
+            'SELECT @Start_Date, @ids, @missing',
+            [{ name: 'start_date', type: 'DATE', value: '2024-01-01' }, { name: 'ids', type: 'ARRAY<INT64>', value: [1] }]
+        );
+
+        assert.deepStrictEqual(bindings.params, { 'Start_Date': '2024-01-01', ids: [1] });
+        assert.deepStrictEqual(bindings.types, { 'Start_Date': 'DATE', ids: ['INT64'] });
+        assert.deepStrictEqual(bindings.undeclared.map(u => u.name), ['missing']);
+    });
+
+    it('should bind positional parameters in order', () => {
+        const bindings = bindParameters('SELECT ?, ?', [{ type: 'INT64', value: 1 }]);
+
+        assert.deepStrictEqual(bindings.params, [1]);
+        assert.deepStrictEqual(bindings.types, ['INT64']);
+        assert.strictEqual(bindings.undeclared.length, 1);
+    });
+});
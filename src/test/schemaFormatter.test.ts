@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { flattenSchema, formatSchemaMarkdown, SchemaField } from '../utils/schemaFormatter';
+
+describe('Schema Formatter Tests', () => {
+    const schema: SchemaField[] = [
+        { name: 'id', type: 'INTEGER', mode: 'REQUIRED' },
+        {
+            name: 'items',
+            type: 'RECORD',
+            mode: 'REPEATED',
+            fields: [
+                { name: 'sku', type: 'STRING' },
+                { name: 'price', type: 'NUMERIC', mode: 'NULLABLE' }
+            ]
+        }
+    ];
+
+    it('should flatten nested fields with dotted paths', () => {
+        assert.deepStrictEqual(flattenSchema(schema).map(f => `${f.path} ${f.type} ${f.mode}`), [
+            'id INTEGER REQUIRED',
+            'items RECORD REPEATED',
+            'items.sku STRING NULLABLE',
+            'items.price NUMERIC NULLABLE'
+        ]);
+    });
+
+    it('should format the schema as a Markdown table', () => {
+        const lines = formatSchemaMarkdown(schema).split('\n');
+
+        assert.strictEqual(lines.length, 6);
+        assert.strictEqual(lines[0], '| Column | Type | Mode |');
+        assert.strictEqual(lines[4], '| &nbsp;&nbsp;`items.sku` | STRING | NULLABLE |');
+    });
+});
@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { parseSettingsFile, stripJsonComments } from '../cli/settingsFile';
+
+describe('CLI Settings File Tests', () => {
+    it('should read prefixed keys from VS Code settings files', () => {
+        const settings = parseSettingsFile([
+            '{',
+            '  // Budget for CI',
+            '  "bigqueryPreviewer.scanWarningThresholdMB": 500,',
+            '  "editor.tabSize": 4,',
+            '  /* "bigqueryPreviewer.currency": "EUR", */',
+            '}'
+        ].join('\n'));
+
+        assert.strictEqual(settings.get('scanWarningThresholdMB', 100), 500);
+        assert.strictEqual(settings.get('currency', 'USD'), 'USD');
+        assert.strictEqual(settings.get('tabSize', 2), 2);
+    });
+
+    it('should read unprefixed and nested keys', () => {
+        assert.strictEqual(parseSettingsFile('{ "location": "EU" }').get('location', ''), 'EU');
+        assert.strictEqual(parseSettingsFile('{ "bigqueryPreviewer": { "location": "US" } }').get('location', ''), 'US');
+    });
+
+    it('should keep comment markers and commas inside strings', () => {
+        assert.strictEqual(
+            stripJsonComments('{ "a": "http://x, /* y */", "b": [1, 2,], }'),
+            '{ "a": "http://x, /* y */", "b": [1, 2] }'
+        );
+    });
+
+    it('should reject files that are not JSON objects', () => {
+        assert.throws(() => parseSettingsFile('[1, 2]'), /JSON object/);
+    });
+});
@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { normalizeStatementText, splitSqlStatements } from '../utils/sqlSplitter';
+
+describe('SQL Statement Splitter Tests', () => {
+    it('should split statements on top-level semicolons', () => {
+        const sql = 'SELECT 1;\nSELECT 2;\n\nSELECT 3';
+        const statements = splitSqlStatements(sql);
+
+        assert.deepStrictEqual(statements.map(s => s.text), ['SELECT 1', 'SELECT 2', 'SELECT 3']);
+        assert.strictEqual(sql.substring(statements[1].startOffset, statements[1].endOffset), 'SELECT 2');
+    });
+
+    it('should ignore semicolons inside strings, identifiers and comments', () => {
+        const sql = [
+            "SELECT 'a;b', \"c;d\", `e;f` -- comment; here",
+            "FROM t /* block; comment */ WHERE x = '''multi;",
+            "line''';",
+            '# hash; comment',
+            'SELECT 2;'
+        ].join('\n');
+        const statements = splitSqlStatements(sql);
+
+        assert.strictEqual(statements.length, 2);
+        assert.ok(statements[0].text.endsWith("'''multi;\nline'''"));
+        assert.strictEqual(statements[1].text, 'SELECT 2');
+    });
+
+    it('should keep BEGIN...END and IF...END IF blocks together', () => {
+        const sql = [
+            'DECLARE x INT64 DEFAULT 1;',
+            'BEGIN',
+            '  IF x > 0 THEN',
+            '    SELECT CASE WHEN x = 1 THEN 1 ELSE 2 END;',
+            '  END IF;',
+            '  SELECT 2;',
+            'END;',
+            'SELECT IF(x > 0, 1, 2);'
+        ].join('\n');
+        const statements = splitSqlStatements(sql);
+
+        assert.strictEqual(statements.length, 3);
+        assert.ok(statements[1].text.startsWith('BEGIN'));
+        assert.ok(statements[1].text.endsWith('END'));
+        assert.strictEqual(statements[2].text, 'SELECT IF(x > 0, 1, 2)');
+    });
+
+    it('should treat BEGIN TRANSACTION as a regular statement', () => {
+        const statements = splitSqlStatements('BEGIN TRANSACTION;\nDELETE FROM t WHERE true;\nCOMMIT TRANSACTION;');
+
+        assert.strictEqual(statements.length, 3);
+    });
+
+    it('should skip comment-only text', () => {
+        assert.deepStrictEqual(splitSqlStatements('-- nothing here\n/* or here */\n'), []);
+    });
+
+    it('should normalize whitespace in statement text', () => {
+        assert.strictEqual(normalizeStatementText('  SELECT\n   1\t FROM t '), 'SELECT 1 FROM t');
+    });
+
+    it('should keep whitespace inside string literals and quoted identifiers', () => {
+        assert.strictEqual(normalizeStatementText("SELECT *\n  FROM `my  table`\n  WHERE s = 'a  b'"), "SELECT * FROM `my  table` WHERE s = 'a  b'");
+        assert.notStrictEqual(normalizeStatementText("WHERE s = 'a  b'"), normalizeStatementText("WHERE s = 'a b'"));
+        assert.strictEqual(normalizeStatementText("SELECT 1 -- don't\n   FROM t"), "SELECT 1 -- don't FROM t");
+    });
+});
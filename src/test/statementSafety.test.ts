@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { describeDestructiveStatement, getDestructiveKind } from '../utils/statementSafety';
+
+describe('Statement Safety Tests', () => {
+    it('should flag DELETE statements with a trivially true condition', () => {
+        assert.strictEqual(getDestructiveKind('DELETE', 'DELETE FROM t WHERE true'), 'DELETE_WITHOUT_WHERE');
+        assert.strictEqual(getDestructiveKind('DELETE', 'DELETE t WHERE 1 = 1;'), 'DELETE_WITHOUT_WHERE');
+        assert.strictEqual(getDestructiveKind('DELETE', 'DELETE FROM t -- WHERE id = 1'), 'DELETE_WITHOUT_WHERE');
+    });
+
+    it('should not flag DELETE statements with a real condition', () => {
+        assert.strictEqual(getDestructiveKind('DELETE', "DELETE FROM t WHERE created < '2020-01-01'"), undefined);
+        assert.strictEqual(getDestructiveKind('DELETE', 'DELETE FROM t WHERE true AND id = 1'), undefined);
+    });
+
+    it('should flag DROP, TRUNCATE and CREATE OR REPLACE statements', () => {
+        assert.strictEqual(getDestructiveKind('DROP_TABLE', 'DROP TABLE t'), 'DROP');
+        assert.strictEqual(getDestructiveKind('TRUNCATE_TABLE', 'TRUNCATE TABLE t'), 'TRUNCATE');
+        assert.strictEqual(getDestructiveKind('CREATE_TABLE_AS_SELECT', 'CREATE OR REPLACE TABLE t AS SELECT 1'), 'CREATE_OR_REPLACE');
+        assert.strictEqual(getDestructiveKind('CREATE_TABLE', 'CREATE TABLE IF NOT EXISTS t (x INT64)'), undefined);
+    });
+
+    it('should not flag queries or unknown statement types', () => {
+        assert.strictEqual(getDestructiveKind('SELECT', 'SELECT * FROM t'), undefined);
+        assert.strictEqual(getDestructiveKind(undefined, 'DROP TABLE t'), undefined);
+    });
+
+    it('should describe destructive statements', () => {
+        assert.strictEqual(
+            describeDestructiveStatement('DROP', 'DROP_TABLE'),
+            'Destructive statement (DROP_TABLE): drops an existing object.'
+        );
+    });
+});
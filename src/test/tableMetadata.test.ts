@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { formatTableMetadataMarkdown, parseTableMetadata } from '../utils/tableMetadata';
+import { findTableReferenceAt } from '../utils/tableReference';
+
+describe('Table Metadata Tests', () => {
+    it('should find a fully qualified table name at an offset', () => {
+        const sql = 'SELECT *\nFROM my-project.sales.orders AS o';
+
+        const reference = findTableReferenceAt(sql, sql.indexOf('sales'));
+
+        assert.deepStrictEqual(reference, {
+            projectId: 'my-project',
+            datasetId: 'sales',
+            tableId: 'orders',
+            startOffset: sql.indexOf('my-project'),
+            endOffset: sql.indexOf(' AS')
+        });
+    });
+
+    it('should find backtick-quoted table names', () => {
+        const quoted = 'SELECT * FROM `my-project.sales.orders`';
+        const partlyQuoted = 'SELECT * FROM `my-project`.sales.orders';
+
+        assert.strictEqual(findTableReferenceAt(quoted, quoted.indexOf('orders'))?.tableId, 'orders');
+        assert.strictEqual(findTableReferenceAt(partlyQuoted, partlyQuoted.indexOf('sales'))?.projectId, 'my-project');
+    });
+
+    it('should ignore names that are not fully qualified or are in comments', () => {
+        const sql = 'SELECT o.id FROM sales.orders o -- my-project.sales.orders';
+
+        assert.strictEqual(findTableReferenceAt(sql, sql.indexOf('sales')), undefined);
+        assert.strictEqual(findTableReferenceAt(sql, sql.indexOf('o.id')), undefined);
+        assert.strictEqual(findTableReferenceAt(sql, sql.lastIndexOf('orders')), undefined);
+    });
+
+    it('should read sizes, modification time and description from the table resource', () => {
+        const metadata = parseTableMetadata({
+            type: 'TABLE',
+            numRows: '1500',
+            numBytes: '2048',
+            numPhysicalBytes: '512',
+            lastModifiedTime: '1714550400000',
+            description: 'Orders by day'
+        });
+
+        assert.strictEqual(metadata.numRows, 1500);
+        assert.strictEqual(metadata.logicalBytes, 2048);
+        assert.strictEqual(metadata.physicalBytes, 512);
+        assert.strictEqual(metadata.lastModified, 1714550400000);
+        assert.strictEqual(metadata.description, 'Orders by day');
+        assert.strictEqual(parseTableMetadata({ type: 'VIEW' }).numRows, undefined);
+    });
+
+    it('should show only the available details in the hover', () => {
+        const markdown = formatTableMetadataMarkdown('p.sales.orders', parseTableMetadata({
+            type: 'TABLE',
+            numRows: '1500',
+            numBytes: '2048',
+            timePartitioning: { type: 'DAY', field: 'order_date' },
+            requirePartitionFilter: true,
+            clustering: { fields: ['customer_id'] },
+            description: 'Orders by day'
+        }));
+
+        assert.ok(markdown.startsWith('**`p.sales.orders`** (TABLE)\n\nOrders by day\n\n'));
+        assert.ok(markdown.includes('| Rows | 1,500 |'));
+        assert.ok(markdown.includes('| Logical size | 2 KB |'));
+        assert.ok(markdown.includes('| Partitioning | DAY on `order_date` (filter required) |'));
+        assert.ok(markdown.includes('| Clustering | `customer_id` |'));
+        assert.ok(!markdown.includes('Physical size'));
+        assert.ok(!markdown.includes('Last modified'));
+    });
+});
@@ -0,0 +1,120 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import {
+    createUsageStats,
+    getDayKey,
+    getRecentDays,
+    getTopFiles,
+    recordDryRunUsage,
+    recordTriggerUsage,
+    summarizeUsage
+} from '../utils/usageStats';
+import { escapeHtml, formatUsageDashboardContent, formatUsageDashboardHtml } from '../utils/usageDashboard';
+
+describe('Usage Statistics Tests', () => {
+    const limits = { maxDays: 365, maxFiles: 200 };
+    const day1 = new Date(2025, 4, 1, 10).getTime();
+    const day2 = new Date(2025, 4, 2, 10).getTime();
+
+    it('should count dry runs per day and per file', () => {
+        let stats = createUsageStats(day1);
+        stats = recordDryRunUsage(stats, { timestamp: day1, file: 'a.sql', bytes: 100, cached: false, failed: false }, limits);
+        stats = recordDryRunUsage(stats, { timestamp: day1, file: 'a.sql', bytes: 100, cached: true, failed: false }, limits);
+        stats = recordDryRunUsage(stats, { timestamp: day2, file: 'b.sql', bytes: 0, cached: false, failed: true }, limits);
+
+        assert.deepStrictEqual(stats.days[getDayKey(day1)], { dryRuns: 2, cacheHits: 1, errors: 0, bytes: 200 });
+        assert.deepStrictEqual(stats.days[getDayKey(day2)], { dryRuns: 1, cacheHits: 0, errors: 1, bytes: 0 });
+        assert.deepStrictEqual(stats.files['a.sql'], { dryRuns: 2, cacheHits: 1, errors: 0, bytes: 200 });
+        assert.strictEqual(stats.files['b.sql'].errors, 1);
+    });
+
+    it('should not change the statistics it is given', () => {
+        const stats = createUsageStats(day1);
+        recordDryRunUsage(stats, { timestamp: day1, file: 'a.sql', bytes: 100, cached: false, failed: false }, limits);
+        recordTriggerUsage(stats, 'save');
+
+        assert.deepStrictEqual(stats, createUsageStats(day1));
+    });
+
+    it('should summarize totals with error and cache hit rates', () => {
+        let stats = createUsageStats(day1);
+        stats = recordDryRunUsage(stats, { timestamp: day1, bytes: 100, cached: false, failed: false }, limits);
+        stats = recordDryRunUsage(stats, { timestamp: day1, bytes: 100, cached: true, failed: false }, limits);
+        stats = recordDryRunUsage(stats, { timestamp: day2, bytes: 0, cached: false, failed: true }, limits);
+        stats = recordDryRunUsage(stats, { timestamp: day2, bytes: 50, cached: false, failed: false }, limits);
+
+        const summary = summarizeUsage(stats);
+
+        assert.strictEqual(summary.dryRuns, 4);
+        assert.strictEqual(summary.bytes, 250);
+        assert.strictEqual(summary.errorRate, 0.25);
+        assert.strictEqual(summary.cacheHitRate, 0.25);
+        assert.strictEqual(summarizeUsage(createUsageStats(day1)).errorRate, 0);
+    });
+
+    it('should count analyses per trigger', () => {
+        let stats = createUsageStats(day1);
+        stats = recordTriggerUsage(stats, 'save');
+        stats = recordTriggerUsage(stats, 'save');
+        stats = recordTriggerUsage(stats, 'selection');
+
+        assert.deepStrictEqual(stats.triggers, { save: 2, selection: 1 });
+    });
+
+    it('should drop the oldest days and least analyzed files beyond the limits', () => {
+        const small = { maxDays: 2, maxFiles: 2 };
+        let stats = createUsageStats(day1);
+        for (let day = 1; day <= 3; day++) {
+            stats = recordDryRunUsage(stats, { timestamp: new Date(2025, 4, day, 10).getTime(), file: 'a.sql', bytes: 1, cached: false, failed: false }, small);
+        }
+        stats = recordDryRunUsage(stats, { timestamp: day1, file: 'b.sql', bytes: 1, cached: false, failed: false }, small);
+        stats = recordDryRunUsage(stats, { timestamp: day1, file: 'c.sql', bytes: 1, cached: false, failed: false }, small);
+
+        assert.deepStrictEqual(Object.keys(stats.days).sort(), ['2025-05-02', '2025-05-03']);
+        assert.deepStrictEqual(Object.keys(stats.files).sort(), ['a.sql', 'c.sql']);
+    });
+
+    it('should list recent days including days without dry runs', () => {
+        let stats = createUsageStats(day1);
+        stats = recordDryRunUsage(stats, { timestamp: day1, bytes: 10, cached: false, failed: false }, limits);
+
+        const days = getRecentDays(stats, 3, new Date(2025, 4, 3, 9).getTime());
+
+        assert.deepStrictEqual(days.map(([day]) => day), ['2025-05-01', '2025-05-02', '2025-05-03']);
+        assert.strictEqual(days[0][1].dryRuns, 1);
+        assert.strictEqual(days[1][1].dryRuns, 0);
+    });
+
+    it('should order files by number of dry runs', () => {
+        let stats = createUsageStats(day1);
+        for (const file of ['b.sql', 'a.sql', 'b.sql', 'c.sql']) {
+            stats = recordDryRunUsage(stats, { timestamp: day1, file, bytes: 1, cached: false, failed: false }, limits);
+        }
+
+        assert.deepStrictEqual(getTopFiles(stats, 2).map(([file]) => file), ['b.sql', 'a.sql']);
+    });
+
+    it('should escape file names in the dashboard', () => {
+        let stats = createUsageStats(day1);
+        stats = recordDryRunUsage(stats, { timestamp: day1, file: '<script>.sql', bytes: 1, cached: false, failed: false }, limits);
+
+        const html = formatUsageDashboardHtml(stats, { now: day1, cspSource: 'vscode-resource:', nonce: 'abc' });
+
+        assert.strictEqual(escapeHtml('a & "b"'), 'a &amp; &quot;b&quot;');
+        assert.ok(html.includes('&lt;script&gt;.sql'));
+        assert.ok(!html.includes('<script>.sql'));
+        assert.ok(html.includes('<script nonce="abc">'));
+    });
+
+    it('should render the content the open dashboard replaces on updates', () => {
+        let stats = createUsageStats(day1);
+        stats = recordDryRunUsage(stats, { timestamp: day1, file: 'a.sql', bytes: 1, cached: true, failed: false }, limits);
+
+        const content = formatUsageDashboardContent(stats, day1);
+        const html = formatUsageDashboardHtml(stats, { now: day1, cspSource: 'vscode-resource:', nonce: 'abc' });
+
+        assert.ok(html.includes(`<div id="content">\n${content}\n</div>`));
+        assert.ok(!content.includes('id="export"'));
+        assert.ok(content.includes('a.sql'));
+    });
+});
@@ -0,0 +1,130 @@
+import * as vscode from 'vscode';
+import { DryRunResult } from '../services/bigQueryService';
+import { getEffectiveBudget } from '../services/policyService';
+import { estimateCost, evaluateScan, formatScanDetails, formatScanSummary } from '../utils/costCalculator';
+import { getDocumentStatements, isEligibleForAnalysis } from '../utils/documentUtils';
+import { normalizeStatementText } from '../utils/sqlSplitter';
+import { describeDestructiveStatement } from '../utils/statementSafety';
+
+// Dry run results per document, keyed by the normalized statement text
+const statementResults = new Map<string, Map<string, DryRunResult>>();
+const codeLensChangeEmitter = new vscode.EventEmitter<void>();
+
+/**
+ * CodeLens provider that shows the dry run result above each statement
+ */
+export const statementCodeLensProvider: vscode.CodeLensProvider = {
+    onDidChangeCodeLenses: codeLensChangeEmitter.event,
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        const { config } = getEffectiveBudget(document.uri);
+        if (!config.enableCodeLens || !isEligibleForAnalysis(document)) {
+            return [];
+        }
+
+        const results = statementResults.get(document.uri.toString());
+
+        return getDocumentStatements(document).map(statement => {
+            const range = new vscode.Range(
+                document.positionAt(statement.startOffset),
+                document.positionAt(statement.endOffset)
+            );
+            const result = results?.get(normalizeStatementText(statement.text));
+            let title: string;
+            let tooltip: string;
+
+            if (!result) {
+                title = '$(play) Analyze statement';
+                tooltip = 'Run a dry run for this statement';
+            } else if (result.errors.length > 0) {
+                const fullErrorMessage = result.errors.join('; ');
+                const maxErrorLength = 80;
+                title = `$(error) Error: ${fullErrorMessage.length > maxErrorLength ?
+                    fullErrorMessage.substring(0, maxErrorLength) + '...' :
+                    fullErrorMessage}`;
+                tooltip = fullErrorMessage;
+            } else {
+                const cost = estimateCost(result.scannedBytes, result.referencedTables.length, config);
+                const evaluation = evaluateScan(result.scannedBytes, cost, config);
+                let icon = evaluation.exceedsErrorThreshold ? '$(error)' :
+                    evaluation.exceedsBytesThreshold || evaluation.exceedsCostThreshold ? '$(warning)' : '$(pass-filled)';
+                tooltip = `${formatScanDetails(evaluation, config)}\nClick to re-analyze.`;
+                if (result.destructiveKind && result.statementType && config.destructiveStatementWarnings.includes(result.destructiveKind)) {
+                    icon = '$(flame)';
+                    tooltip = `${describeDestructiveStatement(result.destructiveKind, result.statementType)}\n${tooltip}`;
+                }
+                title = result.statementType ?
+                    `${icon} ${result.statementType} · ${formatScanSummary(evaluation, config)}` :
+                    `${icon} ${formatScanSummary(evaluation, config)}`;
+            }
+
+            return new vscode.CodeLens(range, {
+                title,
+                tooltip,
+                command: 'bigquery-previewer.analyzeStatement',
+                arguments: [document.uri, range]
+            });
+        });
+    }
+};
+
+/**
+ * Replaces all statement results of a document and refreshes its CodeLenses
+ * @param uri The URI of the analyzed document
+ * @param results Pairs of statement text and dry run result
+ */
+export function setStatementResults(uri: string, results: Array<[string, DryRunResult]>): void {
+    statementResults.set(uri, new Map(results.map(([text, result]) => [normalizeStatementText(text), result])));
+    codeLensChangeEmitter.fire();
+}
+
+/**
+ * Stores the result of a single statement and refreshes the CodeLenses
+ * @param uri The URI of the analyzed document
+ * @param statementText The text of the analyzed statement
+ * @param result The dry run result of the statement
+ */
+export function setStatementResult(uri: string, statementText: string, result: DryRunResult): void {
+    let results = statementResults.get(uri);
+    if (!results) {
+        results = new Map<string, DryRunResult>();
+        statementResults.set(uri, results);
+    }
+    results.set(normalizeStatementText(statementText), result);
+    codeLensChangeEmitter.fire();
+}
+
+/**
+ * Gets the stored result of a statement
+ * @param uri The URI of the document
+ * @param statementText The text of the statement
+ * @returns The dry run result, or undefined if the statement has not been analyzed
+ */
+export function getStatementResult(uri: string, statementText: string): DryRunResult | undefined {
+    return statementResults.get(uri)?.get(normalizeStatementText(statementText));
+}
+
+/**
+ * Removes the statement results of a document, e.g. when it is closed
+ * @param uri The URI of the document
+ */
+export function clearStatementResults(uri: string): void {
+    if (statementResults.delete(uri)) {
+        codeLensChangeEmitter.fire();
+    }
+}
+
+/**
+ * Refreshes all CodeLenses, e.g. after a configuration change
+ */
+export function refreshCodeLenses(): void {
+    codeLensChangeEmitter.fire();
+}
+
+/**
+ * Clears all stored statement results
+ * Used during extension deactivation
+ */
+export function disposeCodeLens(): void {
+    statementResults.clear();
+}
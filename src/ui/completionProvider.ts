@@ -0,0 +1,154 @@
+import * as vscode from 'vscode';
+import { ResourceEntry } from '../services/bigQueryService';
+import { getConfiguration } from '../services/configurationService';
+import { getDryRunOptions } from '../services/fileAnalysisService';
+import {
+    getIndexedColumns,
+    getIndexedDatasets,
+    getIndexedDefaultProject,
+    getIndexedProjects,
+    getIndexedTables
+} from '../services/metadataIndexService';
+import { findTableByQualifier, getNamePathAt, NamePath, resolveTableName } from '../utils/completionContext';
+import { isEligibleForAnalysis } from '../utils/documentUtils';
+import { getDefaultDatasetReference, QueryContext } from '../utils/queryContext';
+import { SchemaField } from '../utils/schemaFormatter';
+import { findStatementAtOffset } from '../utils/sqlSplitter';
+import { findFromTables, FromTable } from '../utils/tableReference';
+
+/**
+ * Characters after which completions are requested automatically
+ */
+export const completionTriggerCharacters = ['`', '.'];
+
+/**
+ * Creates completion items for projects, datasets or tables
+ * @param entries The listed resources
+ * @param kind The kind of item
+ * @param range The text the completion replaces
+ * @returns The completion items
+ */
+function toResourceItems(entries: ResourceEntry[], kind: vscode.CompletionItemKind, range: vscode.Range): vscode.CompletionItem[] {
+    return entries.map(entry => {
+        const item = new vscode.CompletionItem(entry.name, kind);
+        item.detail = entry.detail;
+        item.range = range;
+        return item;
+    });
+}
+
+/**
+ * Creates completion items for the columns of a table
+ * @param fields The table's columns
+ * @param table The name of the table, shown next to each column
+ * @param range The text the completion replaces
+ * @returns The completion items
+ */
+function toColumnItems(fields: SchemaField[], table: string, range: vscode.Range): vscode.CompletionItem[] {
+    return fields.map(field => {
+        const item = new vscode.CompletionItem({ label: field.name, description: table }, vscode.CompletionItemKind.Field);
+        item.detail = field.mode && field.mode !== 'NULLABLE' ? `${field.type} (${field.mode})` : field.type;
+        item.documentation = field.description;
+        item.range = range;
+        return item;
+    });
+}
+
+/**
+ * Gets the columns of tables in the FROM clause
+ * @param tables The tables
+ * @param context The project, location and default dataset of the query
+ * @param range The text the completion replaces
+ * @returns The completion items of all tables that could be resolved
+ */
+async function getColumnItems(tables: FromTable[], context: QueryContext | undefined, range: vscode.Range): Promise<vscode.CompletionItem[]> {
+    const defaultProjectId = await getIndexedDefaultProject(context);
+    const items = await Promise.all(tables.map(async table => {
+        const resolved = resolveTableName(table.parts, defaultProjectId, context && getDefaultDatasetReference(context));
+        return resolved ? toColumnItems(await getIndexedColumns(resolved, context), table.alias ?? resolved.tableId, range) : [];
+    }));
+    return items.flat();
+}
+
+/**
+ * Gets the completions for a name being typed
+ * @param path The name being typed
+ * @param tables The tables in the FROM clause of the statement
+ * @param context The project, location and default dataset of the query
+ * @param range The text the completion replaces
+ * @returns The completion items
+ */
+async function getCompletionItems(path: NamePath, tables: FromTable[], context: QueryContext | undefined, range: vscode.Range): Promise<vscode.CompletionItem[]> {
+    const { qualifiers, quoted } = path;
+
+    if (qualifiers.length === 0) {
+        if (!quoted) {
+            return getColumnItems(tables, context, range);
+        }
+        // A quoted name starts with a project, or with a dataset of the default project
+        const defaultProjectId = await getIndexedDefaultProject(context);
+        const [projects, datasets] = await Promise.all([
+            getIndexedProjects(context),
+            defaultProjectId ? getIndexedDatasets(defaultProjectId, context) : Promise.resolve([])
+        ]);
+        return [
+            ...toResourceItems(projects, vscode.CompletionItemKind.Module, range),
+            ...toResourceItems(datasets, vscode.CompletionItemKind.Folder, range)
+        ];
+    }
+
+    if (qualifiers.length === 1) {
+        const table = quoted ? undefined : findTableByQualifier(tables, qualifiers[0]);
+        if (table) {
+            return getColumnItems([table], context, range);
+        }
+        // The qualifier is either a project or a dataset of the default project
+        const defaultProjectId = await getIndexedDefaultProject(context);
+        const [datasets, defaultProjectTables] = await Promise.all([
+            getIndexedDatasets(qualifiers[0], context),
+            defaultProjectId ? getIndexedTables(defaultProjectId, qualifiers[0], context) : Promise.resolve([])
+        ]);
+        return [
+            ...toResourceItems(datasets, vscode.CompletionItemKind.Folder, range),
+            ...toResourceItems(defaultProjectTables, vscode.CompletionItemKind.Class, range)
+        ];
+    }
+
+    if (qualifiers.length === 2) {
+        return toResourceItems(await getIndexedTables(qualifiers[0], qualifiers[1], context), vscode.CompletionItemKind.Class, range);
+    }
+
+    return [];
+}
+
+/**
+ * Completion provider that suggests projects, datasets and tables in table names,
+ * and the columns of the tables in the FROM clause of the statement
+ */
+export const schemaCompletionProvider: vscode.CompletionItemProvider = {
+    async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<vscode.CompletionItem[] | undefined> {
+        const config = getConfiguration();
+        if (!config.enableCompletion || !isEligibleForAnalysis(document)) {
+            return undefined;
+        }
+
+        const text = document.getText();
+        const offset = document.offsetAt(position);
+        const path = getNamePathAt(text, offset);
+        if (!path) {
+            return undefined;
+        }
+
+        const statement = findStatementAtOffset(text, offset);
+        const tables = statement ? findFromTables(statement.text) : [];
+        const { context } = getDryRunOptions(text);
+        const range = new vscode.Range(document.positionAt(path.prefixOffset), position);
+
+        const items = await getCompletionItems(path, tables, context, range);
+        return token.isCancellationRequested ? undefined : items;
+    }
+};
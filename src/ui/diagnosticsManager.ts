@@ -0,0 +1,125 @@
+import * as vscode from 'vscode';
+import { getConfiguration } from '../services/configurationService';
+import { parseErrorLocation, stripErrorLocation } from '../utils/errorParser';
+import { PruningAdvice } from '../utils/pruningAdvisor';
+
+let diagnosticCollection: vscode.DiagnosticCollection | undefined;
+
+/**
+ * A piece of a document that was sent to a dry run, with the errors it produced
+ */
+export interface AnalyzedSegment {
+    range: vscode.Range;
+    errors: string[];
+    /** Partitioning and clustering columns the segment does not filter on */
+    advice?: PruningAdvice[];
+}
+
+/**
+ * Create the diagnostic collection used for dry run errors
+ * @returns The diagnostic collection, to be disposed with the extension
+ */
+export function initializeDiagnostics(): vscode.DiagnosticCollection {
+    if (!diagnosticCollection) {
+        diagnosticCollection = vscode.languages.createDiagnosticCollection('bigquery-previewer');
+    }
+    return diagnosticCollection;
+}
+
+/**
+ * Replaces the diagnostics within the analyzed scope of a document with the errors of the given segments.
+ * Diagnostics outside the scope (e.g. of other statements) are kept.
+ * @param document The analyzed document
+ * @param scope The part of the document that was analyzed
+ * @param segments The analyzed pieces of text and their dry run errors
+ */
+export function publishDiagnostics(
+    document: vscode.TextDocument,
+    scope: vscode.Range,
+    segments: AnalyzedSegment[]
+): void {
+    const collection = initializeDiagnostics();
+    const config = getConfiguration();
+
+    if (!config.enableDiagnostics) {
+        collection.delete(document.uri);
+        return;
+    }
+
+    const keptDiagnostics = (collection.get(document.uri) ?? [])
+        .filter(diagnostic => !scope.contains(diagnostic.range));
+
+    const newDiagnostics = segments.flatMap(segment => [
+        ...segment.errors.map(error => createDiagnostic(document, segment.range, error)),
+        ...(segment.advice ?? []).map(advice => createAdviceDiagnostic(document, segment.range, advice))
+    ]);
+
+    collection.set(document.uri, [...keptDiagnostics, ...newDiagnostics]);
+}
+
+/**
+ * Creates a diagnostic for a dry run error, mapping its position back to the document
+ * @param document The analyzed document
+ * @param segmentRange The range of the text that was sent to the dry run
+ * @param error The error message returned by BigQuery
+ * @returns A diagnostic at the error position, or on the first line of the segment if the error has none
+ */
+function createDiagnostic(document: vscode.TextDocument, segmentRange: vscode.Range, error: string): vscode.Diagnostic {
+    const location = parseErrorLocation(error);
+    let range: vscode.Range;
+
+    if (location) {
+        // Positions are relative to the analyzed text, so the first line also carries the segment's column
+        const line = Math.min(segmentRange.start.line + location.line - 1, document.lineCount - 1);
+        const column = (location.line === 1 ? segmentRange.start.character : 0) + location.column - 1;
+        const position = document.validatePosition(new vscode.Position(line, column));
+        range = document.getWordRangeAtPosition(position) ??
+            new vscode.Range(position, document.validatePosition(position.translate(0, 1)));
+    } else {
+        range = new vscode.Range(segmentRange.start, document.lineAt(segmentRange.start.line).range.end);
+    }
+
+    const diagnostic = new vscode.Diagnostic(range, stripErrorLocation(error), vscode.DiagnosticSeverity.Error);
+    diagnostic.source = 'BigQuery';
+    return diagnostic;
+}
+
+/**
+ * Creates an information diagnostic for a missing partition or clustering filter
+ * @param document The analyzed document
+ * @param segmentRange The range of the text that was sent to the dry run
+ * @param advice The advice
+ * @returns A diagnostic on the table name, or on the first line of the segment if the name was not found
+ */
+function createAdviceDiagnostic(document: vscode.TextDocument, segmentRange: vscode.Range, advice: PruningAdvice): vscode.Diagnostic {
+    let range: vscode.Range;
+    if (advice.offset !== undefined) {
+        const position = document.positionAt(document.offsetAt(segmentRange.start) + advice.offset);
+        range = document.getWordRangeAtPosition(position) ??
+            new vscode.Range(position, document.validatePosition(position.translate(0, 1)));
+    } else {
+        range = new vscode.Range(segmentRange.start, document.lineAt(segmentRange.start.line).range.end);
+    }
+
+    const diagnostic = new vscode.Diagnostic(range, advice.message, vscode.DiagnosticSeverity.Information);
+    diagnostic.source = 'BigQuery';
+    return diagnostic;
+}
+
+/**
+ * Removes all diagnostics of a document, e.g. when it is closed
+ * @param uri The URI of the document
+ */
+export function clearDiagnostics(uri: vscode.Uri): void {
+    diagnosticCollection?.delete(uri);
+}
+
+/**
+ * Dispose of the diagnostic collection
+ */
+export function disposeDiagnostics(): void {
+    if (diagnosticCollection) {
+        diagnosticCollection.dispose();
+        diagnosticCollection = undefined;
+    }
+}
@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import { DryRunResult } from '../services/bigQueryService';
+import { getEffectiveBudget } from '../services/policyService';
+import { estimateCost, evaluateScan, formatScanDetails, formatScanSummary } from '../utils/costCalculator';
+
+// Dry run results of %%bigquery cells, keyed by the cell document URI
+const cellResults = new Map<string, DryRunResult>();
+const cellStatusBarChangeEmitter = new vscode.EventEmitter<void>();
+
+/**
+ * Notebook types whose %%bigquery cells are analyzed: Jupyter notebooks and the interactive window
+ */
+export const bigQueryNotebookTypes = ['jupyter-notebook', 'interactive'];
+
+/**
+ * Cell status bar provider that shows the dry run result below each analyzed %%bigquery cell
+ */
+export const bigQueryCellStatusBarProvider: vscode.NotebookCellStatusBarItemProvider = {
+    onDidChangeCellStatusBarItems: cellStatusBarChangeEmitter.event,
+
+    provideCellStatusBarItems(cell: vscode.NotebookCell): vscode.NotebookCellStatusBarItem[] {
+        const result = cellResults.get(cell.document.uri.toString());
+        if (!result) {
+            return [];
+        }
+
+        let item: vscode.NotebookCellStatusBarItem;
+        if (result.errors.length > 0) {
+            item = new vscode.NotebookCellStatusBarItem('$(error) Dry run failed', vscode.NotebookCellStatusBarAlignment.Left);
+            item.tooltip = result.errors.join('\n');
+        } else {
+            const { config } = getEffectiveBudget(cell.notebook.uri);
+            const cost = estimateCost(result.scannedBytes, result.referencedTables.length, config);
+            const evaluation = evaluateScan(result.scannedBytes, cost, config);
+            const icon = evaluation.exceedsErrorThreshold ? '$(error)' :
+                evaluation.exceedsBytesThreshold || evaluation.exceedsCostThreshold ? '$(warning)' : '$(database)';
+            item = new vscode.NotebookCellStatusBarItem(`${icon} ${formatScanSummary(evaluation, config)}`, vscode.NotebookCellStatusBarAlignment.Left);
+            item.tooltip = `${formatScanDetails(evaluation, config)}${result.cachedAt ? '\n(cached result)' : ''}`;
+        }
+        item.command = 'bigquery-previewer.analyzeNotebook';
+        return [item];
+    }
+};
+
+/**
+ * Stores the dry run result of a cell and refreshes the cell status bars
+ * @param uri The URI of the cell document
+ * @param result The dry run result, or undefined to remove the cell's result
+ */
+export function setCellResult(uri: string, result: DryRunResult | undefined): void {
+    if (result) {
+        cellResults.set(uri, result);
+    } else if (!cellResults.delete(uri)) {
+        return;
+    }
+    cellStatusBarChangeEmitter.fire();
+}
+
+/**
+ * Removes the results of the cells of a notebook, e.g. when it is closed
+ * @param notebook The notebook
+ */
+export function clearNotebookResults(notebook: vscode.NotebookDocument): void {
+    notebook.getCells().forEach(cell => cellResults.delete(cell.document.uri.toString()));
+    cellStatusBarChangeEmitter.fire();
+}
+
+/**
+ * Refreshes the cell status bars, e.g. after a configuration change
+ */
+export function refreshCellStatusBar(): void {
+    cellStatusBarChangeEmitter.fire();
+}
+
+/**
+ * Clears all stored cell results
+ * Used during extension deactivation
+ */
+export function disposeCellStatusBar(): void {
+    cellResults.clear();
+}
@@ -0,0 +1,35 @@
+import * as vscode from 'vscode';
+import { setLogSink } from '../services/logService';
+
+let outputChannel: vscode.LogOutputChannel | undefined;
+
+/**
+ * Creates the "BigQuery Previewer" log output channel and sends all log messages to it
+ * @returns The output channel
+ */
+export function initializeOutputChannel(): vscode.LogOutputChannel {
+    if (!outputChannel) {
+        outputChannel = vscode.window.createOutputChannel('BigQuery Previewer', { log: true });
+        setLogSink(outputChannel);
+    }
+    return outputChannel;
+}
+
+/**
+ * Reveals the output channel without taking focus from the editor
+ */
+export function showOutputChannel(): void {
+    initializeOutputChannel().show(true);
+}
+
+/**
+ * Dispose of the output channel
+ * Used during extension deactivation
+ */
+export function disposeOutputChannel(): void {
+    if (outputChannel) {
+        setLogSink(undefined);
+        outputChannel.dispose();
+        outputChannel = undefined;
+    }
+}
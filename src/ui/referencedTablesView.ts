@@ -0,0 +1,169 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getFullyQualifiedName, ReferencedTable } from '../services/bigQueryService';
+
+/**
+ * A node of the referenced tables tree: a project, a dataset or a table
+ */
+export interface TableTreeNode {
+    kind: 'project' | 'dataset' | 'table';
+    label: string;
+    children: TableTreeNode[];
+    table?: ReferencedTable;
+}
+
+/**
+ * The query or statement whose referenced tables are shown
+ */
+export interface ReferencedTablesSource {
+    uri: vscode.Uri;
+    /** Range of the analyzed statement or selection; undefined when the whole document was analyzed */
+    range?: vscode.Range;
+}
+
+let treeView: vscode.TreeView<TableTreeNode> | undefined;
+let currentSource: ReferencedTablesSource | undefined;
+let rootNodes: TableTreeNode[] = [];
+const treeChangeEmitter = new vscode.EventEmitter<TableTreeNode | undefined>();
+
+/**
+ * Tree data provider listing referenced tables grouped by project and dataset
+ */
+const referencedTablesProvider: vscode.TreeDataProvider<TableTreeNode> = {
+    onDidChangeTreeData: treeChangeEmitter.event,
+
+    getTreeItem(node: TableTreeNode): vscode.TreeItem {
+        const item = new vscode.TreeItem(
+            node.label,
+            node.kind === 'table' ? vscode.TreeItemCollapsibleState.None : vscode.TreeItemCollapsibleState.Expanded
+        );
+
+        if (node.kind === 'project') {
+            item.iconPath = new vscode.ThemeIcon('project');
+        } else if (node.kind === 'dataset') {
+            item.iconPath = new vscode.ThemeIcon('database');
+        } else if (node.table) {
+            item.iconPath = new vscode.ThemeIcon('table');
+            item.tooltip = getFullyQualifiedName(node.table);
+        }
+
+        // Used in package.json menus to show the table context actions
+        item.contextValue = node.kind;
+        return item;
+    },
+
+    getChildren(node?: TableTreeNode): TableTreeNode[] {
+        return node ? node.children : rootNodes;
+    }
+};
+
+/**
+ * Create the referenced tables tree view in the Explorer
+ * @returns The tree view, to be disposed with the extension
+ */
+export function initializeReferencedTablesView(): vscode.TreeView<TableTreeNode> {
+    if (!treeView) {
+        treeView = vscode.window.createTreeView('bigqueryPreviewer.referencedTables', {
+            treeDataProvider: referencedTablesProvider,
+            showCollapseAll: true
+        });
+        treeView.message = 'Analyze a query to see the tables it references.';
+    }
+    return treeView;
+}
+
+/**
+ * Shows the tables referenced by an analyzed query or statement
+ * @param source The analyzed document and range
+ * @param tables The referenced tables, possibly with duplicates
+ */
+export function setReferencedTables(source: ReferencedTablesSource, tables: ReferencedTable[]): void {
+    currentSource = source;
+    rootNodes = buildTree(tables);
+
+    if (treeView) {
+        const fileName = path.basename(source.uri.fsPath);
+        treeView.description = source.range ? `${fileName}:${source.range.start.line + 1}` : fileName;
+        treeView.message = rootNodes.length === 0 ? 'The analyzed query does not reference any tables.' : undefined;
+    }
+
+    treeChangeEmitter.fire(undefined);
+}
+
+/**
+ * Clears the view if it shows tables of the given document, e.g. when it is closed
+ * @param uri The URI of the document
+ */
+export function clearReferencedTables(uri: string): void {
+    if (currentSource?.uri.toString() !== uri) {
+        return;
+    }
+
+    currentSource = undefined;
+    rootNodes = [];
+    if (treeView) {
+        treeView.description = undefined;
+        treeView.message = 'Analyze a query to see the tables it references.';
+    }
+    treeChangeEmitter.fire(undefined);
+}
+
+/**
+ * Gets the query or statement whose tables are currently shown
+ * @returns The source of the shown tables, or undefined if nothing was analyzed
+ */
+export function getReferencedTablesSource(): ReferencedTablesSource | undefined {
+    return currentSource;
+}
+
+/**
+ * Groups tables by project and dataset, removing duplicates and sorting by name
+ * @param tables The referenced tables
+ * @returns The project nodes of the tree
+ */
+function buildTree(tables: ReferencedTable[]): TableTreeNode[] {
+    const projects = new Map<string, Map<string, Map<string, ReferencedTable>>>();
+
+    for (const table of tables) {
+        let datasets = projects.get(table.projectId);
+        if (!datasets) {
+            datasets = new Map();
+            projects.set(table.projectId, datasets);
+        }
+        let datasetTables = datasets.get(table.datasetId);
+        if (!datasetTables) {
+            datasetTables = new Map();
+            datasets.set(table.datasetId, datasetTables);
+        }
+        datasetTables.set(table.tableId, table);
+    }
+
+    const byLabel = (a: TableTreeNode, b: TableTreeNode) => a.label.localeCompare(b.label);
+
+    return [...projects].map(([projectId, datasets]): TableTreeNode => ({
+        kind: 'project',
+        label: projectId,
+        children: [...datasets].map(([datasetId, datasetTables]): TableTreeNode => ({
+            kind: 'dataset',
+            label: datasetId,
+            children: [...datasetTables.values()].map((table): TableTreeNode => ({
+                kind: 'table',
+                label: table.tableId,
+                children: [],
+                table
+            })).sort(byLabel)
+        })).sort(byLabel)
+    })).sort(byLabel);
+}
+
+/**
+ * Dispose of the referenced tables view
+ */
+export function disposeReferencedTablesView(): void {
+    if (treeView) {
+        treeView.dispose();
+        treeView = undefined;
+    }
+    currentSource = undefined;
+    rootNodes = [];
+}
@@ -0,0 +1,30 @@
+import * as vscode from 'vscode';
+import { getStatementResult } from './codeLensManager';
+import { formatSchemaMarkdown } from '../utils/schemaFormatter';
+import { findStatementAtOffset } from '../utils/sqlSplitter';
+
+/**
+ * Hover provider that shows the output schema of the analyzed statement over its SELECT keyword
+ */
+export const schemaHoverProvider: vscode.HoverProvider = {
+    provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const wordRange = document.getWordRangeAtPosition(position);
+        if (!wordRange || document.getText(wordRange).toUpperCase() !== 'SELECT') {
+            return undefined;
+        }
+
+        const statement = findStatementAtOffset(document.getText(), document.offsetAt(position));
+        if (!statement) {
+            return undefined;
+        }
+
+        const result = getStatementResult(document.uri.toString(), statement.text);
+        if (!result || result.errors.length > 0 || result.schema.length === 0) {
+            return undefined;
+        }
+
+        const markdown = new vscode.MarkdownString(`**Output schema** (${result.schema.length} columns)\n\n${formatSchemaMarkdown(result.schema)}`);
+        markdown.supportHtml = true;
+        return new vscode.Hover(markdown, wordRange);
+    }
+};
@@ -1,9 +1,38 @@
 import * as vscode from 'vscode';
+import { getConfiguration } from '../services/configurationService';
+import { getActiveProfileName } from '../services/profileService';
+import { isEligibleForAnalysis } from '../utils/documentUtils';
 
 let statusBarItem: vscode.StatusBarItem | undefined;
 let resultStatusBarItem: vscode.StatusBarItem | undefined;
+let headDeltaStatusBarItem: vscode.StatusBarItem | undefined;
 let isResultStatusBarVisible = false;
 
+/**
+ * The document and part of it that a status bar result belongs to
+ */
+export interface ResultTarget {
+    uri: vscode.Uri;
+    /** 'selection' for a selection or a single statement, which do not replace the result of the whole file */
+    scope: 'file' | 'selection';
+}
+
+/**
+ * A result shown in the result status bar item
+ */
+interface StatusBarResult {
+    message: string;
+    color: vscode.ThemeColor;
+    backgroundColor?: vscode.ThemeColor;
+    tooltip: string;
+}
+
+// Last result of each document and of its last analyzed selection, keyed by document URI
+const fileResults = new Map<string, StatusBarResult>();
+const selectionResults = new Map<string, StatusBarResult>();
+// Scan size difference to the committed version of each document with uncommitted changes, keyed by document URI
+const headDeltas = new Map<string, { message: string; tooltip: string }>();
+
 /**
  * Create and initialize status bar items
  */
@@ -24,6 +53,12 @@ export function initializeStatusBar(): void {
         resultStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
         resultStatusBarItem.command = 'bigquery-previewer.showOptions';
     }
+
+    // Create the status bar item comparing the scan size with the committed version
+    if (!headDeltaStatusBarItem) {
+        headDeltaStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 98);
+        headDeltaStatusBarItem.command = 'bigquery-previewer.compareWithHead';
+    }
 }
 
 /**
@@ -36,13 +71,18 @@ export function updateControlStatusBar(isActive: boolean): void {
     }
     
     if (statusBarItem) {
+        // Show the active connection profile, if any, next to the name
+        const profileName = getActiveProfileName();
+        const profileText = profileName ? ` · ${profileName}` : '';
+        const profileTooltip = profileName ? `\nProfile: ${profileName}` : '';
+
         if (isActive) {
-            statusBarItem.text = "$(debug-pause) BigQuery Previewer";
-            statusBarItem.tooltip = "Click to pause BigQuery Previewer";
+            statusBarItem.text = `$(debug-pause) BigQuery Previewer${profileText}`;
+            statusBarItem.tooltip = `Click to pause BigQuery Previewer${profileTooltip}`;
             statusBarItem.command = 'bigquery-previewer.pauseExtension';
         } else {
-            statusBarItem.text = "$(debug-start) BigQuery Previewer";
-            statusBarItem.tooltip = "Click to activate BigQuery Previewer";
+            statusBarItem.text = `$(debug-start) BigQuery Previewer${profileText}`;
+            statusBarItem.tooltip = `Click to activate BigQuery Previewer${profileTooltip}`;
             statusBarItem.command = 'bigquery-previewer.startExtension';
         }
         
@@ -56,34 +96,51 @@ export function updateControlStatusBar(isActive: boolean): void {
  * @param color The text color theme
  * @param backgroundColor Optional background color theme
  * @param tooltip Optional tooltip text
+ * @param target Optional document the result belongs to; the result is stored for it and only
+ * shown while the document is in the active editor
  */
 export function updateStatusBar(
     message: string, 
     color: vscode.ThemeColor, 
     backgroundColor?: vscode.ThemeColor, 
-    tooltip?: string
+    tooltip?: string,
+    target?: ResultTarget
 ): void {
+    // Default to the displayed message
+    const result: StatusBarResult = { message, color, backgroundColor, tooltip: tooltip || message };
+
+    if (target) {
+        const uri = target.uri.toString();
+        (target.scope === 'selection' ? selectionResults : fileResults).set(uri, result);
+
+        const activeUri = vscode.window.activeTextEditor?.document.uri.toString();
+        // Without an active editor, e.g. while a panel has focus, the latest result is shown
+        if (activeUri !== undefined && activeUri !== uri) {
+            return;
+        }
+        showResult(result, target);
+        return;
+    }
+
+    showResult(result);
+}
+
+/**
+ * Shows a result in the result status bar item
+ * @param result The result to show
+ * @param target Optional document the result belongs to, named in the tooltip
+ */
+function showResult(result: StatusBarResult, target?: ResultTarget): void {
     if (!resultStatusBarItem) {
         initializeStatusBar();
     }
     
     if (resultStatusBarItem) {
-        resultStatusBarItem.text = message;
-        resultStatusBarItem.color = color;
-        
-        // Set the tooltip if provided
-        if (tooltip) {
-            resultStatusBarItem.tooltip = tooltip;
-        } else {
-            resultStatusBarItem.tooltip = message; // Default to the displayed message
-        }
-        
-        // Set the background color if provided
-        if (backgroundColor) {
-            resultStatusBarItem.backgroundColor = backgroundColor;
-        } else {
-            resultStatusBarItem.backgroundColor = undefined; // Reset to default if not specified
-        }
+        resultStatusBarItem.text = result.message;
+        resultStatusBarItem.color = result.color;
+        resultStatusBarItem.tooltip = target ? `${describeTarget(target)}\n${result.tooltip}` : result.tooltip;
+        // Reset to default if not specified
+        resultStatusBarItem.backgroundColor = result.backgroundColor;
         
         // Make sure it's visible and update our tracking variable
         resultStatusBarItem.show();
@@ -91,6 +148,102 @@ export function updateStatusBar(
     }
 }
 
+/**
+ * Stores the scan size difference of a document to its committed version and shows it if the document is active
+ * @param uri The document
+ * @param message The status bar text, or undefined to remove the indicator
+ * @param tooltip The tooltip text
+ */
+export function updateHeadDeltaStatusBar(uri: vscode.Uri, message?: string, tooltip?: string): void {
+    if (message) {
+        headDeltas.set(uri.toString(), { message, tooltip: tooltip ?? message });
+    } else {
+        headDeltas.delete(uri.toString());
+    }
+
+    if (vscode.window.activeTextEditor?.document.uri.toString() === uri.toString()) {
+        showHeadDelta(uri.toString());
+    }
+}
+
+/**
+ * Shows the scan size difference of a document to its committed version, or hides the indicator if there is none
+ * @param uri The document URI
+ */
+function showHeadDelta(uri: string | undefined): void {
+    if (!headDeltaStatusBarItem) {
+        initializeStatusBar();
+    }
+
+    const delta = uri !== undefined ? headDeltas.get(uri) : undefined;
+    if (headDeltaStatusBarItem && delta) {
+        headDeltaStatusBarItem.text = delta.message;
+        headDeltaStatusBarItem.tooltip = delta.tooltip;
+        headDeltaStatusBarItem.show();
+    } else {
+        headDeltaStatusBarItem?.hide();
+    }
+}
+
+/**
+ * Describes which file a result belongs to for its tooltip
+ * @param target The document and scope of the result
+ * @returns A description such as "File: queries/daily.sql (selection)"
+ */
+function describeTarget(target: ResultTarget): string {
+    const path = vscode.workspace.asRelativePath(target.uri, false);
+    return `File: ${path}${target.scope === 'selection' ? ' (selection)' : ''}`;
+}
+
+/**
+ * Shows the last result of the document in an editor, e.g. after switching editors.
+ * The selection result is shown while the editor has a selection, the file result otherwise.
+ * @param editor The active editor, or undefined if no editor is active
+ * @param isExtensionActive Whether the extension is active; a paused extension shows no "not analyzed" state
+ */
+export function showEditorResult(editor: vscode.TextEditor | undefined, isExtensionActive: boolean): void {
+    // Keep the current result while focus is outside of text editors
+    if (!editor) {
+        return;
+    }
+
+    const config = getConfiguration();
+    if (!config.enableStatusBar || !isEligibleForAnalysis(editor.document)) {
+        hideResultStatusBar();
+        showHeadDelta(undefined);
+        return;
+    }
+
+    const uri = editor.document.uri;
+    showHeadDelta(uri.toString());
+    const selectionResult = selectionResults.get(uri.toString());
+    const fileResult = fileResults.get(uri.toString());
+
+    if (selectionResult && (!editor.selection.isEmpty || !fileResult)) {
+        showResult(selectionResult, { uri, scope: 'selection' });
+    } else if (fileResult) {
+        showResult(fileResult, { uri, scope: 'file' });
+    } else if (isExtensionActive) {
+        showResult({
+            message: '$(circle-outline) Not analyzed',
+            color: new vscode.ThemeColor('statusBarItem.foreground'),
+            tooltip: 'This file has not been analyzed yet. Click for options.'
+        }, { uri, scope: 'file' });
+    } else {
+        hideResultStatusBar();
+    }
+}
+
+/**
+ * Removes the stored results of a document, e.g. when it is closed
+ * @param uri The URI of the document
+ */
+export function clearEditorResults(uri: string): void {
+    fileResults.delete(uri);
+    selectionResults.delete(uri);
+    headDeltas.delete(uri);
+}
+
 /**
  * Hides the result status bar
  */
@@ -130,6 +283,14 @@ export function disposeStatusBar(): void {
         resultStatusBarItem.dispose();
         resultStatusBarItem = undefined;
     }
+
+    if (headDeltaStatusBarItem) {
+        headDeltaStatusBarItem.dispose();
+        headDeltaStatusBarItem = undefined;
+    }
     
     isResultStatusBarVisible = false;
+    fileResults.clear();
+    selectionResults.clear();
+    headDeltas.clear();
 }
\ No newline at end of file
@@ -0,0 +1,33 @@
+import * as vscode from 'vscode';
+import { getFullyQualifiedName, getTableMetadata } from '../services/bigQueryService';
+import { getDryRunOptions } from '../services/fileAnalysisService';
+import { isEligibleForAnalysis } from '../utils/documentUtils';
+import { formatTableMetadataMarkdown } from '../utils/tableMetadata';
+import { findTableReferenceAt } from '../utils/tableReference';
+
+/**
+ * Hover provider that shows the size, partitioning, clustering and description of a fully qualified table name
+ */
+export const tableHoverProvider: vscode.HoverProvider = {
+    async provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.Hover | undefined> {
+        if (!isEligibleForAnalysis(document)) {
+            return undefined;
+        }
+
+        const text = document.getText();
+        const reference = findTableReferenceAt(text, document.offsetAt(position));
+        if (!reference) {
+            return undefined;
+        }
+
+        // The file's project and location directives apply to the metadata lookup like to its dry runs
+        const { context } = getDryRunOptions(text);
+        const metadata = await getTableMetadata(reference, context);
+        if (!metadata || token.isCancellationRequested) {
+            return undefined;
+        }
+
+        const range = new vscode.Range(document.positionAt(reference.startOffset), document.positionAt(reference.endOffset));
+        return new vscode.Hover(new vscode.MarkdownString(formatTableMetadataMarkdown(getFullyQualifiedName(reference), metadata)), range);
+    }
+};
@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import { randomBytes } from 'crypto';
+import { getUsageStats, onDidChangeUsage, resetUsageStats } from '../services/usageService';
+import { formatUsageDashboardContent, formatUsageDashboardHtml } from '../utils/usageDashboard';
+
+let dashboardPanel: vscode.WebviewPanel | undefined;
+
+/**
+ * Renders the dashboard page with the current usage statistics
+ * @param panel The dashboard panel
+ */
+function renderDashboard(panel: vscode.WebviewPanel): void {
+    panel.webview.html = formatUsageDashboardHtml(getUsageStats(), {
+        now: Date.now(),
+        cspSource: panel.webview.cspSource,
+        // A fresh nonce on every render keeps injected scripts from running
+        nonce: randomBytes(16).toString('base64')
+    });
+}
+
+/**
+ * Sends the current usage statistics to the open dashboard page, which updates its content in place
+ * instead of reloading, so the scroll position is kept while analyses run
+ * @param panel The dashboard panel
+ */
+function updateDashboard(panel: vscode.WebviewPanel): void {
+    // A hidden page is not updated; it is refreshed when it is shown again
+    if (!panel.visible) {
+        return;
+    }
+    panel.webview.postMessage({ command: 'update', html: formatUsageDashboardContent(getUsageStats(), Date.now()) });
+}
+
+/**
+ * Saves the raw usage statistics as JSON
+ */
+async function exportUsageStats(): Promise<void> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const fileName = 'bigquery-usage.json';
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, fileName) : undefined,
+        filters: { JSON: ['json'] }
+    });
+    if (!target) {
+        return;
+    }
+
+    await vscode.workspace.fs.writeFile(target, Buffer.from(`${JSON.stringify(getUsageStats(), null, 2)}\n`, 'utf8'));
+    vscode.window.showInformationMessage(`Usage statistics saved to ${vscode.workspace.asRelativePath(target)}.`);
+}
+
+/**
+ * Asks for confirmation and clears the usage statistics
+ */
+async function confirmResetUsageStats(): Promise<void> {
+    const action = await vscode.window.showWarningMessage(
+        'Reset all BigQuery Previewer usage statistics?',
+        { modal: true },
+        'Reset'
+    );
+    if (action === 'Reset') {
+        resetUsageStats();
+    }
+}
+
+/**
+ * Opens the usage dashboard, or reveals it if it is already open
+ */
+export function showUsageDashboard(): void {
+    if (dashboardPanel) {
+        dashboardPanel.reveal();
+        return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+        'bigqueryPreviewer.usageDashboard',
+        'BigQuery Previewer Usage',
+        vscode.ViewColumn.Active,
+        { enableScripts: true }
+    );
+    dashboardPanel = panel;
+
+    // Keep the charts current while dry runs are counted
+    const usageListener = onDidChangeUsage(() => updateDashboard(panel));
+    const viewStateListener = panel.onDidChangeViewState(() => updateDashboard(panel));
+    const messageListener = panel.webview.onDidReceiveMessage((message: { command?: string }) => {
+        if (message.command === 'export') {
+            return exportUsageStats();
+        } else if (message.command === 'reset') {
+            return confirmResetUsageStats();
+        }
+    });
+    panel.onDidDispose(() => {
+        usageListener.dispose();
+        viewStateListener.dispose();
+        messageListener.dispose();
+        dashboardPanel = undefined;
+    });
+
+    renderDashboard(panel);
+}
+
+/**
+ * Dispose of the usage dashboard
+ * Used during extension deactivation
+ */
+export function disposeUsageDashboard(): void {
+    dashboardPanel?.dispose();
+}
@@ -0,0 +1,148 @@
+/**
+ * Utility functions for recording and formatting the analysis history of a file
+ */
+import { createHash } from 'crypto';
+import { formatCost, formatDataSize } from './formatters';
+import { normalizeStatementText } from './sqlSplitter';
+
+/**
+ * A single successful analysis of a file or statement
+ */
+export interface HistoryEntry {
+    timestamp: number;
+    bytes: number;
+    cost: number;
+    /** Hash of the normalized query text, used to tell edits apart from re-runs */
+    queryHash: string;
+}
+
+/**
+ * The history of a file, keyed by scope: 'file' for the whole file or 'statement:N' for its Nth statement
+ */
+export type FileHistory = Record<string, HistoryEntry[]>;
+
+// Block characters from lowest to highest, used to draw sparklines
+const sparkBlocks = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+
+/**
+ * Hashes a query so that whitespace-only edits keep the same hash
+ * @param query The query text
+ * @returns A short hexadecimal hash
+ */
+export function hashQuery(query: string): string {
+    return createHash('sha256').update(normalizeStatementText(query)).digest('hex').substring(0, 12);
+}
+
+/**
+ * Builds the history scope of a statement
+ * @param index Zero-based index of the statement in its file
+ * @returns The scope key
+ */
+export function getStatementScope(index: number): string {
+    return `statement:${index + 1}`;
+}
+
+/**
+ * Appends an entry to a history. Re-running an unchanged query replaces the last entry instead of
+ * adding a new one, so that the history only grows when the query or its scan size changes.
+ * @param entries The existing entries, oldest first
+ * @param entry The new entry
+ * @param maxEntries The maximum number of entries to keep
+ * @returns The updated entries and the previous entry to compare the new one with
+ */
+export function appendHistoryEntry(
+    entries: HistoryEntry[],
+    entry: HistoryEntry,
+    maxEntries: number
+): { entries: HistoryEntry[]; previous?: HistoryEntry } {
+    const last = entries[entries.length - 1];
+    const isRerun = !!last && last.queryHash === entry.queryHash && last.bytes === entry.bytes;
+    const kept = isRerun ? entries.slice(0, -1) : entries;
+
+    return {
+        entries: [...kept, entry].slice(-maxEntries),
+        previous: kept[kept.length - 1]
+    };
+}
+
+/**
+ * Drops the histories of the least recently analyzed files beyond a limit,
+ * so that renamed and deleted files do not accumulate in the workspace state
+ * @param histories The histories keyed by file URI
+ * @param maxFiles The maximum number of files to keep
+ * @returns The histories of the most recently analyzed files
+ */
+export function pruneFileHistories(histories: Record<string, FileHistory>, maxFiles: number): Record<string, FileHistory> {
+    const files = Object.keys(histories);
+    if (files.length <= maxFiles) {
+        return histories;
+    }
+
+    const lastAnalyzed = (history: FileHistory) =>
+        Math.max(0, ...Object.values(history).flatMap(entries => entries.map(entry => entry.timestamp)));
+    const kept = files
+        .sort((a, b) => lastAnalyzed(histories[b]) - lastAnalyzed(histories[a]))
+        .slice(0, maxFiles);
+    return Object.fromEntries(kept.map(file => [file, histories[file]]));
+}
+
+/**
+ * Formats the difference between two scans for the status bar
+ * @param currentBytes The bytes scanned by the current analysis
+ * @param previous The previous entry
+ * @returns A string such as "+2.3 GB vs last", or "same as last" if the size did not change
+ */
+export function formatHistoryDelta(currentBytes: number, previous: HistoryEntry): string {
+    const delta = currentBytes - previous.bytes;
+    if (delta === 0) {
+        return 'same as last';
+    }
+    return `${delta > 0 ? '+' : '-'}${formatDataSize(Math.abs(delta))} vs last`;
+}
+
+/**
+ * Draws a sparkline of scan sizes
+ * @param values The values to draw, oldest first
+ * @returns One block character per value
+ */
+export function formatSparkline(values: number[]): string {
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    return values.map(value => {
+        const level = max === min ? 0 : Math.round((value - min) / (max - min) * (sparkBlocks.length - 1));
+        return sparkBlocks[level];
+    }).join('');
+}
+
+/**
+ * Formats the history of a file as Markdown, with a sparkline and a table per scope
+ * @param history The history of the file
+ * @param currency ISO 4217 currency code used for costs
+ * @returns The Markdown text
+ */
+export function formatHistoryMarkdown(history: FileHistory, currency: string): string {
+    // Show the whole file first, then the statements in order
+    const scopes = Object.keys(history)
+        .filter(scope => history[scope].length > 0)
+        .sort((a, b) => a === 'file' ? -1 : b === 'file' ? 1 : a.localeCompare(b, undefined, { numeric: true }));
+
+    return scopes.map(scope => {
+        const entries = history[scope];
+        const title = scope === 'file' ? 'Whole file' : `Statement ${scope.substring('statement:'.length)}`;
+        const rows = entries.map((entry, index) => {
+            const previous = entries[index - 1];
+            const delta = previous ? formatHistoryDelta(entry.bytes, previous) : '';
+            return `| ${new Date(entry.timestamp).toLocaleString()} | ${formatDataSize(entry.bytes)} | ${formatCost(entry.cost, currency)} | ${delta} | \`${entry.queryHash}\` |`;
+        });
+
+        return [
+            `## ${title}`,
+            '',
+            `\`${formatSparkline(entries.map(entry => entry.bytes))}\``,
+            '',
+            '| Time | Scan | Cost | Change | Query hash |',
+            '| --- | --- | --- | --- | --- |',
+            ...rows
+        ].join('\n');
+    }).join('\n\n');
+}
@@ -0,0 +1,128 @@
+/**
+ * Scheduler for analyses that keeps only the latest job per key and limits how many run at once
+ */
+
+/**
+ * Tells a running job whether a newer job for the same key has superseded it
+ */
+export interface CancellationFlag {
+    readonly isCancelled: boolean;
+}
+
+/**
+ * An analysis job; it should check the flag after each await and stop without reporting once cancelled
+ */
+export type AnalysisJob = (flag: CancellationFlag) => Promise<void>;
+
+/**
+ * A queue of analysis jobs keyed by what they analyze, e.g. a document or a statement
+ */
+export interface AnalysisQueue {
+    /**
+     * Schedules a job. A pending job with the same key is dropped and a running one is cancelled;
+     * the new job starts as soon as a slot is free. A cancelled job keeps its slot until it stops, since its
+     * dry run is still in flight, so the limit also bounds the dry runs of cancelled jobs; their results are
+     * dropped by their flag check.
+     * @param key The key of what the job analyzes
+     * @param job The job to run
+     * @returns Promise that settles when the job has finished, or resolves when it is dropped before starting
+     */
+    schedule(key: string, job: AnalysisJob): Promise<void>;
+    /**
+     * Drops the pending jobs and cancels the running jobs whose key matches
+     * @param matches Check for the keys to cancel
+     */
+    cancel(matches: (key: string) => boolean): void;
+    /** Number of jobs currently running, including cancelled jobs that have not stopped yet */
+    readonly runningCount: number;
+    /** Number of jobs waiting for a slot */
+    readonly pendingCount: number;
+}
+
+interface QueueEntry {
+    job: AnalysisJob;
+    flag: { isCancelled: boolean };
+    resolve: () => void;
+    reject: (error: unknown) => void;
+}
+
+/**
+ * Creates an analysis queue
+ * @param getLimit Returns the maximum number of jobs running at the same time; read whenever a job could start
+ * @returns The queue
+ */
+export function createAnalysisQueue(getLimit: () => number): AnalysisQueue {
+    // The latest running job of each key
+    const running = new Map<string, QueueEntry>();
+    // Cancelled jobs that are still waiting for their dry runs to return
+    const cancelled = new Set<QueueEntry>();
+    // Jobs in the order they were scheduled, at most one per key
+    const pending = new Map<string, QueueEntry>();
+
+    // Marks the running job of a key as cancelled; it keeps its slot until it stops
+    const cancelRunning = (key: string): void => {
+        const entry = running.get(key);
+        if (entry) {
+            entry.flag.isCancelled = true;
+            running.delete(key);
+            cancelled.add(entry);
+        }
+    };
+
+    const startNext = (): void => {
+        for (const [key, entry] of pending) {
+            if (running.size + cancelled.size >= Math.max(1, getLimit())) {
+                return;
+            }
+            pending.delete(key);
+            running.set(key, entry);
+            Promise.resolve()
+                .then(() => entry.job(entry.flag))
+                .then(entry.resolve, entry.reject)
+                .finally(() => {
+                    if (running.get(key) === entry) {
+                        running.delete(key);
+                    }
+                    cancelled.delete(entry);
+                    startNext();
+                });
+        }
+    };
+
+    return {
+        schedule(key: string, job: AnalysisJob): Promise<void> {
+            return new Promise<void>((resolve, reject) => {
+                const superseded = pending.get(key);
+                if (superseded) {
+                    pending.delete(key);
+                    superseded.resolve();
+                }
+                cancelRunning(key);
+                pending.set(key, { job, flag: { isCancelled: false }, resolve, reject });
+                startNext();
+            });
+        },
+
+        cancel(matches: (key: string) => boolean): void {
+            for (const [key, entry] of pending) {
+                if (matches(key)) {
+                    pending.delete(key);
+                    entry.resolve();
+                }
+            }
+            for (const key of [...running.keys()]) {
+                if (matches(key)) {
+                    cancelRunning(key);
+                }
+            }
+        },
+
+        get runningCount(): number {
+            return running.size + cancelled.size;
+        },
+
+        get pendingCount(): number {
+            return pending.size;
+        }
+    };
+}
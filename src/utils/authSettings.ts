@@ -0,0 +1,107 @@
+/**
+ * Utility functions for validating authentication settings and explaining credential failures
+ */
+
+/**
+ * The settings that select and configure the credentials
+ */
+export interface AuthSettings {
+    authMode: string;
+    serviceAccountKeyPath: string;
+    impersonateServiceAccount: string;
+    externalAccountCredentialsPath: string;
+}
+
+// Type of the credential configuration files created for workload identity federation
+const externalAccountType = 'external_account';
+
+// Service account emails, e.g. dry-run@my-project.iam.gserviceaccount.com
+const serviceAccountEmailPattern = /^[^@\s]+@[^@\s]+\.gserviceaccount\.com$/;
+
+/**
+ * Checks that the settings required by the authentication mode are set
+ * @param settings The authentication settings
+ * @returns A message describing the missing or invalid setting, or undefined if the settings are complete
+ */
+export function validateAuthSettings(settings: AuthSettings): string | undefined {
+    switch (settings.authMode) {
+        case 'impersonation': {
+            const target = settings.impersonateServiceAccount.trim();
+            if (!target) {
+                return 'Auth mode "impersonation" requires the bigqueryPreviewer.impersonateServiceAccount setting: the email of the service account to impersonate.';
+            }
+            if (!serviceAccountEmailPattern.test(target)) {
+                return `"${target}" is not a service account email. Set bigqueryPreviewer.impersonateServiceAccount to an email such as name@project.iam.gserviceaccount.com.`;
+            }
+            return undefined;
+        }
+        case 'external_account':
+            if (!settings.externalAccountCredentialsPath.trim()) {
+                return 'Auth mode "external_account" requires the bigqueryPreviewer.externalAccountCredentialsPath setting: the path of the credential configuration file created by "gcloud iam workload-identity-pools create-cred-config".';
+            }
+            return undefined;
+        default:
+            // adc needs no settings, and service_account falls back to ADC without a key file
+            return undefined;
+    }
+}
+
+/**
+ * Parses and validates an external account credential configuration file
+ * @param text The JSON content of the file
+ * @returns The parsed configuration
+ * @throws Error describing the first problem found
+ */
+export function parseExternalAccountConfig(text: string): Record<string, unknown> {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (error: any) {
+        throw new Error(`The credential configuration is not valid JSON: ${error.message}`);
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error('The credential configuration must be a JSON object.');
+    }
+
+    const config = parsed as Record<string, unknown>;
+    if (config.type !== externalAccountType) {
+        const hint = config.type === 'service_account' ?
+            ' This is a service account key file; use auth mode "service_account" instead.' : '';
+        throw new Error(`Expected a credential configuration of type "${externalAccountType}" but found ${JSON.stringify(config.type ?? null)}.${hint}`);
+    }
+    for (const field of ['audience', 'subject_token_type', 'token_url']) {
+        if (typeof config[field] !== 'string' || !config[field]) {
+            throw new Error(`The credential configuration is missing "${field}".`);
+        }
+    }
+    if (typeof config.credential_source !== 'object' || config.credential_source === null) {
+        throw new Error('The credential configuration is missing "credential_source", which tells where to read the external token from.');
+    }
+    return config;
+}
+
+/**
+ * Adds a hint on how to fix a failure to obtain credentials for the authentication mode
+ * @param authMode The configured authentication mode
+ * @param message The error message of the failure
+ * @returns The message with a hint, or the message unchanged if it is not a credential failure
+ */
+export function describeCredentialError(authMode: string, message: string): string {
+    if (/Could not load the default credentials/i.test(message)) {
+        const hint = authMode === 'impersonation' ?
+            'Impersonation needs Application Default Credentials as its source. Run "gcloud auth application-default login".' :
+            'Run "gcloud auth application-default login" or choose another auth mode.';
+        return `${message} ${hint}`;
+    }
+
+    if (authMode === 'impersonation' && /unable to impersonate|iam\.serviceAccounts\.getAccessToken/i.test(message)) {
+        return `Could not impersonate the service account: ${message} Grant the Application Default Credentials the Service Account Token Creator role (roles/iam.serviceAccountTokenCreator) on the impersonated account.`;
+    }
+
+    if (authMode === 'external_account' &&
+        /invalid_grant|invalid_request|invalid_target|unauthorized_client|subject token|credential_source|it is not a file/i.test(message)) {
+        return `Could not exchange the external token: ${message} Check the credential_source and audience of the credential configuration and that the workload identity pool provider trusts the token.`;
+    }
+
+    return message;
+}
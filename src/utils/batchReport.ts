@@ -0,0 +1,132 @@
+/**
+ * Utility functions for sorting and exporting the report of a workspace analysis
+ */
+import { formatCost, formatDataSize } from './formatters';
+
+/**
+ * The dry run result of one file of a workspace analysis
+ */
+export interface BatchFileResult {
+    /** Path of the file relative to its workspace folder */
+    file: string;
+    statements: number;
+    bytes: number;
+    cost: number;
+    /** Fully qualified names of the tables the file references */
+    tables: string[];
+    statementTypes: string[];
+    errors: string[];
+}
+
+/**
+ * Columns the report can be sorted by
+ */
+export type BatchSortKey = 'cost' | 'bytes' | 'file' | 'errors';
+
+/**
+ * Formats a report can be exported as
+ */
+export type BatchExportFormat = 'markdown' | 'csv' | 'json';
+
+/**
+ * Sorts the results of a workspace analysis. Sizes and costs sort from largest to smallest,
+ * files alphabetically, and errors put failed files first.
+ * @param results The results to sort
+ * @param key The column to sort by
+ * @returns A sorted copy of the results
+ */
+export function sortBatchResults(results: BatchFileResult[], key: BatchSortKey): BatchFileResult[] {
+    const byFile = (a: BatchFileResult, b: BatchFileResult) => a.file.localeCompare(b.file);
+
+    return [...results].sort((a, b) => {
+        switch (key) {
+            case 'cost':
+                return b.cost - a.cost || byFile(a, b);
+            case 'bytes':
+                return b.bytes - a.bytes || byFile(a, b);
+            case 'errors':
+                return b.errors.length - a.errors.length || byFile(a, b);
+            default:
+                return byFile(a, b);
+        }
+    });
+}
+
+/**
+ * Summarizes a workspace analysis in one line
+ * @param results The results of the analysis
+ * @param currency ISO 4217 currency code used for costs
+ * @returns A summary such as "12 files · 3.5 GB · $0.02 · 1 failed"
+ */
+export function formatBatchSummary(results: BatchFileResult[], currency: string): string {
+    const totalBytes = results.reduce((total, result) => total + result.bytes, 0);
+    const totalCost = results.reduce((total, result) => total + result.cost, 0);
+    const failedCount = results.filter(result => result.errors.length > 0).length;
+    const summary = `${results.length} file${results.length === 1 ? '' : 's'} · ${formatDataSize(totalBytes)} · ${formatCost(totalCost, currency)}`;
+    return failedCount > 0 ? `${summary} · ${failedCount} failed` : summary;
+}
+
+/**
+ * Formats the results of a workspace analysis in the given format
+ * @param results The results, in the order they should appear
+ * @param format The export format
+ * @param currency ISO 4217 currency code used for costs in Markdown
+ * @returns The report text
+ */
+export function formatBatchReport(results: BatchFileResult[], format: BatchExportFormat, currency: string): string {
+    switch (format) {
+        case 'csv':
+            return formatBatchCsv(results);
+        case 'json':
+            return JSON.stringify(results, null, 2);
+        default:
+            return formatBatchMarkdown(results, currency);
+    }
+}
+
+/**
+ * Formats the results as a Markdown table
+ * @param results The results to format
+ * @param currency ISO 4217 currency code used for costs
+ * @returns The Markdown text
+ */
+function formatBatchMarkdown(results: BatchFileResult[], currency: string): string {
+    // Pipes would end the table cell early
+    const escape = (text: string) => text.replace(/\|/g, '\\|').replace(/\s+/g, ' ');
+    const rows = results.map(result => {
+        const outcome = result.errors.length > 0 ? `Error: ${escape(result.errors.join('; '))}` : 'OK';
+        return `| ${escape(result.file)} | ${result.statements} | ${formatDataSize(result.bytes)} | ${formatCost(result.cost, currency)} | ${result.tables.length} | ${outcome} |`;
+    });
+
+    return [
+        `**Total:** ${formatBatchSummary(results, currency)}`,
+        '',
+        '| File | Statements | Scan | Cost | Tables | Result |',
+        '| --- | ---: | ---: | ---: | ---: | --- |',
+        ...rows
+    ].join('\n');
+}
+
+/**
+ * Formats the results as CSV with one row per file
+ * @param results The results to format
+ * @returns The CSV text
+ */
+function formatBatchCsv(results: BatchFileResult[]): string {
+    const quote = (value: string | number) => {
+        const text = String(value);
+        return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const header = ['file', 'statements', 'bytes', 'cost', 'tables', 'statement_types', 'errors'];
+    const rows = results.map(result => [
+        result.file,
+        result.statements,
+        result.bytes,
+        result.cost,
+        result.tables.join(' '),
+        result.statementTypes.join(' '),
+        result.errors.join('; ')
+    ].map(quote).join(','));
+
+    return [header.join(','), ...rows].join('\n');
+}
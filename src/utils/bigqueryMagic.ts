@@ -0,0 +1,187 @@
+/**
+ * Utility functions for reading the query of Jupyter notebook cells that use the %%bigquery cell magic
+ */
+import { QueryContext } from './queryContext';
+import { QueryParameter } from './queryParameters';
+
+/**
+ * The query of a %%bigquery cell and the options of its magic line
+ */
+export interface BigQueryCell {
+    /** The query below the magic line, trimmed */
+    query: string;
+    /** Offset of the query within the cell text */
+    queryOffset: number;
+    /** Parameters passed with --params */
+    parameters: QueryParameter[];
+    /** Project and location passed with --project and --location */
+    context: Partial<QueryContext>;
+    /** Set when the cell runs legacy SQL, which dry runs do not support */
+    legacySql: boolean;
+}
+
+// The magic has to be the first line of the cell
+const magicLinePattern = /^%%bigquery\b(.*)$/m;
+
+/**
+ * Reads the query and options of a %%bigquery cell.
+ * --params is honored when it is a dictionary literal; a variable reference such as $params is only known
+ * to the kernel, so its parameters are missing from the dry run.
+ * @param text The text of the cell
+ * @returns The cell's query and options, or undefined if the cell does not start with %%bigquery
+ */
+export function parseBigQueryCell(text: string): BigQueryCell | undefined {
+    const match = magicLinePattern.exec(text);
+    if (!match || match.index !== 0) {
+        return undefined;
+    }
+
+    let options = match[1];
+    let parameters: QueryParameter[] = [];
+    const paramsIndex = options.search(/--params\s+\{/);
+    if (paramsIndex >= 0) {
+        const dictStart = options.indexOf('{', paramsIndex);
+        const dictEnd = findClosingBrace(options, dictStart);
+        parameters = parseParamsDictionary(options.substring(dictStart, dictEnd));
+        options = options.substring(0, paramsIndex) + options.substring(dictEnd);
+    }
+
+    const context: Partial<QueryContext> = {};
+    const project = /--project\s+(\S+)/.exec(options);
+    if (project) {
+        context.projectId = project[1];
+    }
+    const location = /--location\s+(\S+)/.exec(options);
+    if (location) {
+        context.location = location[1];
+    }
+
+    const body = text.substring(match[0].length);
+    const leading = body.length - body.trimStart().length;
+    return {
+        query: body.trim(),
+        queryOffset: match[0].length + leading,
+        parameters,
+        context,
+        legacySql: /--use_legacy_sql\b/.test(options)
+    };
+}
+
+/**
+ * Converts the dictionary passed with --params into parameter declarations, inferring each type from its value
+ * like the BigQuery magic does
+ * @param text The dictionary as a Python or JSON literal
+ * @returns The named parameters; entries whose value has no BigQuery type are left out
+ */
+export function parseParamsDictionary(text: string): QueryParameter[] {
+    let values: unknown;
+    try {
+        values = JSON.parse(toJson(text));
+    } catch {
+        return [];
+    }
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+        return [];
+    }
+
+    return Object.entries(values as Record<string, unknown>).flatMap(([name, value]) => {
+        const type = inferParameterType(value);
+        return type ? [{ name, type, value }] : [];
+    });
+}
+
+/**
+ * Infers the BigQuery type of a parameter value
+ * @param value The value
+ * @returns The type, e.g. INT64 or ARRAY<STRING>, or undefined for values without a type such as dictionaries
+ */
+function inferParameterType(value: unknown): string | undefined {
+    if (value === null || typeof value === 'string') {
+        return 'STRING';
+    }
+    if (typeof value === 'boolean') {
+        return 'BOOL';
+    }
+    if (typeof value === 'number') {
+        return Number.isInteger(value) ? 'INT64' : 'FLOAT64';
+    }
+    if (Array.isArray(value)) {
+        const elementType = value.length > 0 ? inferParameterType(value[0]) : 'STRING';
+        return elementType && !elementType.startsWith('ARRAY') ? `ARRAY<${elementType}>` : undefined;
+    }
+    return undefined;
+}
+
+/**
+ * Converts a Python literal to JSON: single-quoted strings, True, False, None and trailing commas
+ * @param text The Python literal
+ * @returns The equivalent JSON text
+ */
+function toJson(text: string): string {
+    let json = '';
+    let i = 0;
+
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '\'' || ch === '"') {
+            let j = i + 1;
+            json += '"';
+            while (j < text.length && text[j] !== ch) {
+                if (text[j] === '\\') {
+                    // JSON has no \' escape, and a single quote needs none
+                    json += text[j + 1] === '\'' ? '\'' : text.substring(j, j + 2);
+                    j += 2;
+                } else {
+                    // A double quote needs no escape in a single-quoted Python string, but does in JSON
+                    json += text[j] === '"' ? '\\"' : text[j];
+                    j++;
+                }
+            }
+            json += '"';
+            i = j + 1;
+            continue;
+        }
+
+        const word = /^[A-Za-z_]\w*/.exec(text.substring(i))?.[0];
+        if (word) {
+            json += word === 'True' ? 'true' : word === 'False' ? 'false' : word === 'None' ? 'null' : word;
+            i += word.length;
+            continue;
+        }
+
+        json += ch;
+        i++;
+    }
+
+    return json.replace(/,(\s*[}\]])/g, '$1');
+}
+
+/**
+ * Finds the end of a dictionary literal, skipping braces inside strings
+ * @param text The text
+ * @param start Offset of the opening brace
+ * @returns Offset just after the closing brace, or the end of the text if it is not closed
+ */
+function findClosingBrace(text: string, start: number): number {
+    let depth = 0;
+    let quote: string | undefined;
+
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === '\\') {
+                i++;
+            } else if (ch === quote) {
+                quote = undefined;
+            }
+        } else if (ch === '\'' || ch === '"') {
+            quote = ch;
+        } else if (ch === '{') {
+            depth++;
+        } else if (ch === '}' && --depth === 0) {
+            return i + 1;
+        }
+    }
+
+    return text.length;
+}
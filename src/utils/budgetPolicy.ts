@@ -0,0 +1,176 @@
+/**
+ * Utility functions for repository budget policies, which set scan size and cost limits per path
+ */
+import { ScanThresholdOptions } from './costCalculator';
+import { formatCost, formatDataSize } from './formatters';
+import { matchesGlob } from './globMatcher';
+
+/**
+ * Name of the policy file, looked up in the root of each workspace folder
+ */
+export const budgetPolicyFileName = '.bigquery-previewer.json';
+
+const byteUnits: Record<string, number> = {
+    'B': 1,
+    'KB': 1024,
+    'MB': Math.pow(1024, 2),
+    'GB': Math.pow(1024, 3),
+    'TB': Math.pow(1024, 4),
+    'PB': Math.pow(1024, 5)
+};
+
+/**
+ * Scan size and cost limits; a missing value means no limit
+ */
+export interface BudgetLimits {
+    bytes?: number;
+    cost?: number;
+}
+
+/**
+ * Limits that apply to the files matching a glob pattern
+ */
+export interface BudgetRule {
+    /** Glob pattern relative to the workspace folder, e.g. reports/** */
+    pattern: string;
+    /** Limits above which the scan shows a warning, replacing the scan and cost warning settings */
+    warn?: BudgetLimits;
+    /** Limits above which the scan is over budget */
+    error?: BudgetLimits;
+    /** When true, user settings can only make the warning limits stricter and cannot turn them off */
+    enforced?: boolean;
+}
+
+/**
+ * The content of a policy file
+ */
+export interface BudgetPolicy {
+    rules: BudgetRule[];
+}
+
+/**
+ * Parses a byte size such as 1073741824, "500 MB" or "2.5 TB"
+ * @param value The size as a number of bytes or a string with a unit
+ * @returns The size in bytes
+ * @throws Error if the value is not a valid size
+ */
+export function parseByteSize(value: unknown): number {
+    if (typeof value === 'number' && value >= 0) {
+        return value;
+    }
+
+    const match = typeof value === 'string' ? /^\s*(\d+(?:\.\d+)?)\s*([KMGTP]?B)?\s*$/i.exec(value) : null;
+    if (!match) {
+        throw new Error(`Invalid size ${JSON.stringify(value)}. Use a number of bytes or a size such as "500 MB".`);
+    }
+    return parseFloat(match[1]) * byteUnits[(match[2] ?? 'B').toUpperCase()];
+}
+
+/**
+ * Parses and validates the content of a policy file
+ * @param text The JSON content of the policy file
+ * @returns The policy
+ * @throws Error describing the first problem found
+ */
+export function parseBudgetPolicy(text: string): BudgetPolicy {
+    const parsed = JSON.parse(text);
+    if (typeof parsed !== 'object' || parsed === null || !Array.isArray(parsed.rules)) {
+        throw new Error('The policy must be an object with a "rules" array.');
+    }
+
+    const parseLimits = (limits: unknown, name: string, index: number): BudgetLimits | undefined => {
+        if (limits === undefined) {
+            return undefined;
+        }
+        if (typeof limits !== 'object' || limits === null) {
+            throw new Error(`Rule ${index + 1}: "${name}" must be an object with "bytes" and/or "cost".`);
+        }
+        const { bytes, cost } = limits as Record<string, unknown>;
+        if (cost !== undefined && (typeof cost !== 'number' || cost < 0)) {
+            throw new Error(`Rule ${index + 1}: "${name}.cost" must be a non-negative number.`);
+        }
+        try {
+            return { bytes: bytes === undefined ? undefined : parseByteSize(bytes), cost: cost as number | undefined };
+        } catch (error: any) {
+            throw new Error(`Rule ${index + 1}: "${name}.bytes": ${error.message}`);
+        }
+    };
+
+    return {
+        rules: parsed.rules.map((rule: any, index: number): BudgetRule => {
+            if (typeof rule?.pattern !== 'string' || rule.pattern.length === 0) {
+                throw new Error(`Rule ${index + 1}: "pattern" must be a non-empty glob pattern.`);
+            }
+            return {
+                pattern: rule.pattern,
+                warn: parseLimits(rule.warn, 'warn', index),
+                error: parseLimits(rule.error, 'error', index),
+                enforced: rule.enforced === true
+            };
+        })
+    };
+}
+
+/**
+ * Finds the rule that applies to a file. Rules are checked in order and the first match wins.
+ * @param policy The policy
+ * @param relativePath Path of the file relative to the folder containing the policy file
+ * @returns The matching rule, or undefined if no rule matches
+ */
+export function findBudgetRule(policy: BudgetPolicy, relativePath: string): BudgetRule | undefined {
+    return policy.rules.find(rule => matchesGlob(relativePath, rule.pattern));
+}
+
+/**
+ * Applies a rule to the threshold settings. Without enforcement the rule's warning limits replace
+ * the settings; with enforcement the stricter of the two applies and warnings cannot be turned off.
+ * @param settings The threshold settings of the user
+ * @param rule The rule that applies to the file, if any
+ * @returns The effective thresholds
+ */
+export function applyBudgetRule<T extends ScanThresholdOptions>(settings: T, rule: BudgetRule | undefined): T {
+    if (!rule) {
+        return settings;
+    }
+
+    const settingsBytes = settings.scanWarningThresholdMB * 1024 * 1024;
+    let warnBytes = rule.warn?.bytes ?? settingsBytes;
+    let warnCost = rule.warn?.cost ?? settings.costWarningThreshold;
+
+    if (rule.enforced) {
+        warnBytes = Math.min(warnBytes, settingsBytes);
+        // A cost threshold of 0 means no threshold, so it cannot loosen an enforced one
+        if (rule.warn?.cost && settings.costWarningThreshold > 0) {
+            warnCost = Math.min(rule.warn.cost, settings.costWarningThreshold);
+        }
+    }
+
+    return {
+        ...settings,
+        showScanWarnings: settings.showScanWarnings || !!rule.enforced,
+        scanWarningThresholdMB: warnBytes / (1024 * 1024),
+        costWarningThreshold: warnCost,
+        errorBytesThreshold: rule.error?.bytes,
+        errorCostThreshold: rule.error?.cost
+    };
+}
+
+/**
+ * Describes the rule applied to a file for tooltips
+ * @param rule The applied rule
+ * @param currency ISO 4217 currency code used for costs
+ * @returns A description such as 'Budget rule "api/**" (enforced): warn above 100 MB, error above 1 GB or $0.01'
+ */
+export function describeBudgetRule(rule: BudgetRule, currency: string): string {
+    const formatLimits = (limits: BudgetLimits) => [
+        limits.bytes !== undefined ? formatDataSize(limits.bytes) : '',
+        limits.cost !== undefined ? formatCost(limits.cost, currency) : ''
+    ].filter(limit => limit).join(' or ');
+
+    const limits = [
+        rule.warn ? `warn above ${formatLimits(rule.warn)}` : '',
+        rule.error ? `error above ${formatLimits(rule.error)}` : ''
+    ].filter(limit => limit).join(', ');
+
+    return `Budget rule "${rule.pattern}" from ${budgetPolicyFileName}${rule.enforced ? ' (enforced)' : ''}: ${limits || 'no limits'}`;
+}
@@ -0,0 +1,98 @@
+/**
+ * Utility functions for finding what is being typed when completions are requested
+ */
+import { maskCommentsAndStrings } from './sqlSplitter';
+import { FromTable } from './tableReference';
+
+/**
+ * A dotted name being typed, e.g. `my-project.sales.ord with the cursor after "ord"
+ */
+export interface NamePath {
+    /** The complete parts before the last dot, e.g. ["my-project", "sales"] */
+    qualifiers: string[];
+    /** The partial part being typed, e.g. "ord" */
+    prefix: string;
+    /** Set when the name is inside backticks */
+    quoted: boolean;
+    /** Offset of the prefix, where a completion replaces the text */
+    prefixOffset: number;
+}
+
+/**
+ * A table with all parts of its name
+ */
+export interface QualifiedTable {
+    projectId: string;
+    datasetId: string;
+    tableId: string;
+}
+
+/**
+ * Finds the dotted name that ends at an offset
+ * @param sql The SQL text
+ * @param offset The offset of the cursor
+ * @returns The name, or undefined if the cursor is in a comment, a string or a number
+ */
+export function getNamePathAt(sql: string, offset: number): NamePath | undefined {
+    const masked = maskCommentsAndStrings(sql.substring(0, offset));
+    // Comments and strings are masked, so a difference means the cursor is inside one
+    if (offset > 0 && masked[offset - 1] !== sql[offset - 1]) {
+        return undefined;
+    }
+
+    let start = offset;
+    while (start > 0 && /[A-Za-z0-9_\-.`]/.test(masked[start - 1])) {
+        start--;
+    }
+    const token = masked.substring(start, offset);
+    const quoted = token.includes('`');
+    if (!quoted && /^[0-9]/.test(token)) {
+        return undefined;
+    }
+
+    const parts = token.replace(/`/g, '').split('.');
+    const prefix = parts.pop() ?? '';
+    if (parts.some(part => part.length === 0)) {
+        return undefined;
+    }
+    return { qualifiers: parts, prefix, quoted, prefixOffset: offset - prefix.length };
+}
+
+/**
+ * Completes a table name with the default project and dataset of the query
+ * @param parts The parts of the name as written
+ * @param defaultProjectId The project of names without a project
+ * @param defaultDataset The default dataset of the query, if any
+ * @returns The table, or undefined if the name cannot be completed
+ */
+export function resolveTableName(
+    parts: string[],
+    defaultProjectId: string | undefined,
+    defaultDataset?: { projectId?: string; datasetId: string }
+): QualifiedTable | undefined {
+    if (parts.length === 3) {
+        const [projectId, datasetId, tableId] = parts;
+        return { projectId, datasetId, tableId };
+    }
+    if (parts.length === 2 && defaultProjectId) {
+        const [datasetId, tableId] = parts;
+        return { projectId: defaultProjectId, datasetId, tableId };
+    }
+    const datasetProjectId = defaultDataset?.projectId ?? defaultProjectId;
+    if (parts.length === 1 && defaultDataset && datasetProjectId) {
+        return { projectId: datasetProjectId, datasetId: defaultDataset.datasetId, tableId: parts[0] };
+    }
+    return undefined;
+}
+
+/**
+ * Finds the FROM table a qualifier refers to, by alias or by table name
+ * @param tables The tables in the FROM and JOIN clauses
+ * @param qualifier The qualifier typed before a dot, e.g. "o" in "o.id"
+ * @returns The table, or undefined if no table has that alias or name
+ */
+export function findTableByQualifier(tables: FromTable[], qualifier: string): FromTable | undefined {
+    const name = qualifier.toLowerCase();
+    return tables.find(table => table.alias?.toLowerCase() === name) ??
+        tables.find(table => !table.alias && table.parts[table.parts.length - 1].toLowerCase() === name);
+}
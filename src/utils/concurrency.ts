@@ -0,0 +1,32 @@
+/**
+ * Utility functions for running asynchronous work with a concurrency limit
+ */
+
+/**
+ * Runs a worker for each item, with at most `limit` workers running at the same time
+ * @param items The items to process
+ * @param limit The maximum number of concurrent workers
+ * @param worker The asynchronous function to run for each item
+ * @param isCancelled Optional check called before starting each item; once it returns true no new items are started
+ * @returns The results in the order of the items; items that were not started because of cancellation are undefined
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    worker: (item: T, index: number) => Promise<R>,
+    isCancelled?: () => boolean
+): Promise<Array<R | undefined>> {
+    const results: Array<R | undefined> = new Array(items.length).fill(undefined);
+    let nextIndex = 0;
+
+    const runNext = async (): Promise<void> => {
+        while (nextIndex < items.length && !isCancelled?.()) {
+            const index = nextIndex++;
+            results[index] = await worker(items[index], index);
+        }
+    };
+
+    const workerCount = Math.max(1, Math.min(limit, items.length));
+    await Promise.all(Array.from({ length: workerCount }, runNext));
+    return results;
+}
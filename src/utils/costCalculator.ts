@@ -0,0 +1,152 @@
+/**
+ * Utility functions for estimating the on-demand cost of a query
+ */
+import { formatCost, formatDataSize } from './formatters';
+
+// BigQuery bills at least 10 MB for every table referenced by a query
+const minimumBilledBytesPerTable = 10 * 1024 * 1024;
+const bytesPerTiB = Math.pow(1024, 4);
+
+/**
+ * Settings used to estimate the cost of a query
+ */
+export interface PricingOptions {
+    pricePerTiB: number;
+    currency: string;
+    applyMinimumBilling: boolean;
+}
+
+/**
+ * Settings used to decide whether a scan should raise a warning
+ */
+export interface ScanThresholdOptions extends PricingOptions {
+    showScanWarnings: boolean;
+    scanWarningThresholdMB: number;
+    costWarningThreshold: number;
+    showCost: boolean;
+    /** Scan size in bytes above which the scan is over budget; 0 or undefined for no limit */
+    errorBytesThreshold?: number;
+    /** Cost above which the scan is over budget; 0 or undefined for no limit */
+    errorCostThreshold?: number;
+}
+
+/**
+ * Scan size and cost of an analysis, checked against the configured thresholds
+ */
+export interface ScanEvaluation {
+    scannedBytes: number;
+    cost: number;
+    bytesThreshold: number;
+    exceedsBytesThreshold: boolean;
+    exceedsCostThreshold: boolean;
+    /** Whether the scan size or cost exceeds an error limit of a budget policy */
+    exceedsErrorThreshold: boolean;
+}
+
+/**
+ * Calculates the bytes that would be billed for a query
+ * @param scannedBytes The bytes processed reported by the dry run
+ * @param referencedTableCount The number of tables referenced by the query
+ * @param applyMinimumBilling Whether to apply the 10 MB per-table billing minimum
+ * @returns The number of billed bytes
+ */
+export function calculateBilledBytes(scannedBytes: number, referencedTableCount: number, applyMinimumBilling: boolean): number {
+    if (!applyMinimumBilling) {
+        return scannedBytes;
+    }
+    return Math.max(scannedBytes, referencedTableCount * minimumBilledBytesPerTable);
+}
+
+/**
+ * Estimates the on-demand cost of a query
+ * @param scannedBytes The bytes processed reported by the dry run
+ * @param referencedTableCount The number of tables referenced by the query
+ * @param options Pricing settings
+ * @returns The estimated cost in the configured currency
+ */
+export function estimateCost(scannedBytes: number, referencedTableCount: number, options: PricingOptions): number {
+    const billedBytes = calculateBilledBytes(scannedBytes, referencedTableCount, options.applyMinimumBilling);
+    return (billedBytes / bytesPerTiB) * options.pricePerTiB;
+}
+
+/**
+ * Checks a scan size and cost against the configured warning thresholds
+ * @param scannedBytes The bytes processed reported by the dry run
+ * @param cost The estimated cost of the query
+ * @param options Threshold settings
+ * @returns The evaluation of the scan
+ */
+export function evaluateScan(scannedBytes: number, cost: number, options: ScanThresholdOptions): ScanEvaluation {
+    // Use MB for threshold comparison but display in appropriate unit
+    const bytesThreshold = options.scanWarningThresholdMB * 1024 * 1024;
+
+    return {
+        scannedBytes,
+        cost,
+        bytesThreshold,
+        exceedsBytesThreshold: options.showScanWarnings && scannedBytes > bytesThreshold,
+        exceedsCostThreshold: options.showScanWarnings && options.costWarningThreshold > 0 && cost > options.costWarningThreshold,
+        // Error limits come from budget policies and apply even when scan warnings are turned off
+        exceedsErrorThreshold: (!!options.errorBytesThreshold && scannedBytes > options.errorBytesThreshold) ||
+            (!!options.errorCostThreshold && cost > options.errorCostThreshold)
+    };
+}
+
+/**
+ * Builds the short scan summary shown in the status bar and CodeLenses,
+ * e.g. "Scan: 1.2 GB (> 100 MB) · $0.01"
+ * @param evaluation The evaluated scan
+ * @param options Threshold settings
+ * @returns The short summary text
+ */
+export function formatScanSummary(evaluation: ScanEvaluation, options: ScanThresholdOptions): string {
+    let summary = `Scan: ${formatDataSize(evaluation.scannedBytes)}`;
+    if (evaluation.exceedsBytesThreshold) {
+        summary += ` (> ${formatDataSize(evaluation.bytesThreshold)})`;
+    }
+
+    if (options.showCost) {
+        summary += ` · ${formatCost(evaluation.cost, options.currency)}`;
+        if (evaluation.exceedsCostThreshold) {
+            summary += ` (> ${formatCost(options.costWarningThreshold, options.currency)})`;
+        }
+    }
+
+    if (evaluation.exceedsErrorThreshold) {
+        summary += ' · over budget';
+    }
+
+    return summary;
+}
+
+/**
+ * Builds the full scan description used for tooltips and notifications
+ * @param evaluation The evaluated scan
+ * @param options Threshold settings
+ * @returns The full description text
+ */
+export function formatScanDetails(evaluation: ScanEvaluation, options: ScanThresholdOptions): string {
+    const formattedScanSize = formatDataSize(evaluation.scannedBytes);
+    const lines = [evaluation.exceedsBytesThreshold ?
+        `Estimated scan size: ${formattedScanSize} exceeds the threshold of ${formatDataSize(evaluation.bytesThreshold)}.` :
+        `Estimated scan size: ${formattedScanSize}.`];
+
+    if (options.showCost) {
+        const formattedCost = formatCost(evaluation.cost, options.currency);
+        const pricing = `at ${formatCost(options.pricePerTiB, options.currency)} per TiB` +
+            (options.applyMinimumBilling ? ', 10 MB minimum per table' : '');
+        lines.push(evaluation.exceedsCostThreshold ?
+            `Estimated cost: ${formattedCost} exceeds the threshold of ${formatCost(options.costWarningThreshold, options.currency)} (${pricing}).` :
+            `Estimated cost: ${formattedCost} (${pricing}).`);
+    }
+
+    if (evaluation.exceedsErrorThreshold) {
+        const limits = [
+            options.errorBytesThreshold ? formatDataSize(options.errorBytesThreshold) : '',
+            options.errorCostThreshold ? formatCost(options.errorCostThreshold, options.currency) : ''
+        ].filter(limit => limit).join(' or ');
+        lines.push(`Over budget: the scan exceeds the limit of ${limits}.`);
+    }
+
+    return lines.join('\n');
+}
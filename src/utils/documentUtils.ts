@@ -1,7 +1,13 @@
 import * as vscode from 'vscode';
+import { getConfiguration } from '../services/configurationService';
+import { parseBigQueryCell } from './bigqueryMagic';
+import { clipToEmbeddedSql, findEmbeddedSql, isEmbeddedSqlLanguage, mayContainEmbeddedSql } from './embeddedSql';
+import { splitSqlStatements, SqlStatement } from './sqlSplitter';
 
 // Track document versions to detect changes
 const documentVersions = new Map<string, number>();
+// SQL strings of host files, keyed by the document URI and valid for one document version and language
+const embeddedSqlCache = new Map<string, { version: number; languageId: string; statements: SqlStatement[] }>();
 
 /**
  * Checks if the document has changed since last check (edited, saved, etc.)
@@ -21,14 +27,86 @@ export function hasDocumentChanged(document: vscode.TextDocument): boolean {
 }
 
 /**
- * Checks if a document is eligible for analysis (is a SQL file)
+ * Checks if a document is eligible for analysis (a SQL file, or a Python, TypeScript or JavaScript file that may contain embedded SQL).
+ * Called on every edit, so host files are only checked for a marker comment or BigQuery client import; their
+ * string literals are searched when the analysis runs.
  * @param document The TextDocument to check
- * @returns true if the document is eligible for analysis (SQL file), false otherwise
+ * @returns true if the document is eligible for analysis, false otherwise
  */
 export function isEligibleForAnalysis(document: vscode.TextDocument): boolean {
+    // %%bigquery notebook cells are analyzed by the notebook analysis, without their magic line
+    if (document.uri.scheme === 'vscode-notebook-cell' && parseBigQueryCell(document.getText())) {
+        return false;
+    }
+    return isSqlDocument(document) ||
+        (isEmbeddedSqlHost(document) && mayContainEmbeddedSql(document.getText(), document.languageId));
+}
+
+/**
+ * Checks if a document is a SQL file
+ * @param document The TextDocument to check
+ * @returns true if the document is a SQL file
+ */
+export function isSqlDocument(document: vscode.TextDocument): boolean {
     return document.languageId === 'sql' || document.fileName.endsWith('.sql');
 }
 
+/**
+ * Checks if a document is searched for SQL string literals instead of being analyzed as SQL
+ * @param document The TextDocument to check
+ * @returns true if the document is a Python, TypeScript or JavaScript file and embedded SQL is enabled
+ */
+export function isEmbeddedSqlHost(document: vscode.TextDocument): boolean {
+    return !isSqlDocument(document) && isEmbeddedSqlLanguage(document.languageId) && getConfiguration().embeddedSql;
+}
+
+/**
+ * Splits a document into the queries it contains: the statements of a SQL file, or the SQL strings of a host file
+ * @param document The document
+ * @param text The text to split, e.g. another version of the document; defaults to the document's text
+ * @returns The queries in the order they appear
+ */
+export function getDocumentStatements(document: vscode.TextDocument, text?: string): SqlStatement[] {
+    if (!isEmbeddedSqlHost(document)) {
+        return splitSqlStatements(text ?? document.getText());
+    }
+    return text === undefined ? getEmbeddedStatements(document) : findEmbeddedSql(text, document.languageId);
+}
+
+/**
+ * Gets the SQL strings of a host file, searching the text only once per document version
+ * @param document The host document
+ * @returns The SQL strings of the document's current text
+ */
+function getEmbeddedStatements(document: vscode.TextDocument): SqlStatement[] {
+    const uri = document.uri.toString();
+    const cached = embeddedSqlCache.get(uri);
+    if (cached && cached.version === document.version && cached.languageId === document.languageId) {
+        return cached.statements;
+    }
+    const statements = findEmbeddedSql(document.getText(), document.languageId);
+    embeddedSqlCache.set(uri, { version: document.version, languageId: document.languageId, statements });
+    return statements;
+}
+
+/**
+ * Gets the part of a selection that can be analyzed as a query.
+ * In a host file only SQL strings are queries, so the selection is limited to the string it overlaps.
+ * @param document The document
+ * @param selection The selection
+ * @returns The range to analyze, or undefined if the selection is empty or only covers host code
+ */
+export function getSqlSelection(document: vscode.TextDocument, selection: vscode.Selection): vscode.Range | undefined {
+    if (selection.isEmpty || document.getText(selection).trim().length === 0) {
+        return undefined;
+    }
+    if (!isEmbeddedSqlHost(document)) {
+        return selection;
+    }
+    const clipped = clipToEmbeddedSql(getEmbeddedStatements(document), document.offsetAt(selection.start), document.offsetAt(selection.end));
+    return clipped && new vscode.Range(document.positionAt(clipped.startOffset), document.positionAt(clipped.endOffset));
+}
+
 /**
  * Compares two selections for equality
  * @param a First selection
@@ -50,6 +128,7 @@ export function areSelectionsEqual(a: vscode.Selection, b: vscode.Selection): bo
  */
 export function removeDocumentFromCache(uri: string): void {
     documentVersions.delete(uri);
+    embeddedSqlCache.delete(uri);
 }
 
 /**
@@ -58,4 +137,5 @@ export function removeDocumentFromCache(uri: string): void {
  */
 export function clearDocumentVersionCache(): void {
     documentVersions.clear();
+    embeddedSqlCache.clear();
 }
\ No newline at end of file
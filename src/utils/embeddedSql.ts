@@ -0,0 +1,301 @@
+/**
+ * Utility functions for finding BigQuery SQL in string literals of Python, TypeScript and JavaScript files
+ */
+import { skipQuoted, SqlStatement } from './sqlSplitter';
+
+/**
+ * Language IDs of the files that are searched for embedded SQL
+ */
+export const embeddedSqlLanguages = ['python', 'typescript', 'javascript', 'typescriptreact', 'javascriptreact'];
+
+/**
+ * Text of a comment that marks the next string literal as SQL
+ */
+export const embeddedSqlMarker = 'bigquery-sql';
+
+// Text before a string literal that passes it as the query of a BigQuery client call:
+// client.query(...) and client.query_and_wait(...) in Python
+const pythonCallPattern = /(?:\.query|\.query_and_wait)\s*\(\s*(?:query\s*=\s*)?$/;
+// bigquery.query(...) and bigquery.createQueryJob(...) of the Node.js client, with the query or an options object
+const scriptCallPattern = /(?:\.query|\.createQueryJob)\s*\(\s*(?:\{\s*query\s*:\s*)?$/;
+// pandas read_gbq(...), which only queries BigQuery
+const readGbqPattern = /\bread_gbq\s*\(\s*(?:query\s*=\s*)?$/;
+// Imports of the BigQuery client; other libraries have query methods too, e.g. pandas and node-postgres,
+// so client calls are only SQL in files that import it
+const pythonClientImportPattern = /^\s*(?:from\s+google\.cloud\s+import\s+[^#\n]*\bbigquery\b|import\s+google\.cloud\.bigquery\b|from\s+google\.cloud\.bigquery\b)/m;
+const scriptClientImportPattern = /['"]@google-cloud\/bigquery['"]/;
+// Keywords after which a slash starts a regular expression literal rather than a division
+const regexPrecedingKeywords = ['return', 'typeof', 'case', 'do', 'else', 'in', 'of', 'new', 'delete', 'void', 'throw', 'yield', 'await'];
+
+/**
+ * A comment or string literal of a host file
+ */
+interface HostToken {
+    kind: 'comment' | 'string';
+    start: number;
+    end: number;
+    /** Offsets of the text between the quotes of a string */
+    contentStart: number;
+    contentEnd: number;
+    /**
+     * Set for strings whose value is the text between the quotes. Strings with interpolation, bytes and
+     * strings with escape sequences are not, so their dry run errors could not be placed in the file.
+     */
+    verbatim: boolean;
+}
+
+/**
+ * Checks whether SQL is searched for in files of a language
+ * @param languageId The VS Code language ID of the file
+ * @returns true if the language can contain embedded SQL
+ */
+export function isEmbeddedSqlLanguage(languageId: string): boolean {
+    return embeddedSqlLanguages.includes(languageId);
+}
+
+/**
+ * Checks cheaply whether a file may contain embedded SQL, without searching its string literals
+ * @param text The text of the file
+ * @param languageId The VS Code language ID of the file
+ * @returns true if the file contains the marker comment text, a BigQuery client import or a read_gbq call
+ */
+export function mayContainEmbeddedSql(text: string, languageId: string): boolean {
+    if (!isEmbeddedSqlLanguage(languageId)) {
+        return false;
+    }
+    const hints = languageId === 'python' ? [embeddedSqlMarker, 'google.cloud', 'read_gbq'] : [embeddedSqlMarker, '@google-cloud/bigquery'];
+    return hints.some(hint => text.includes(hint));
+}
+
+/**
+ * Finds the SQL string literals of a Python, TypeScript or JavaScript file.
+ * A string is SQL if it is the query argument of a BigQuery client call in a file that imports the client,
+ * the query of a pandas read_gbq call, or if the comment before it contains "bigquery-sql" on the same
+ * or the previous line. Strings with interpolation are skipped,
+ * since their query is only known at run time, and so are strings with escape sequences (except raw
+ * Python strings), whose value differs from the text as written.
+ * The text of each result is the literal as written, so that error positions map back to the file.
+ * @param text The text of the file
+ * @param languageId The VS Code language ID of the file
+ * @returns The SQL strings, trimmed, in the order they appear in the file
+ */
+export function findEmbeddedSql(text: string, languageId: string): SqlStatement[] {
+    if (!isEmbeddedSqlLanguage(languageId)) {
+        return [];
+    }
+
+    const isPython = languageId === 'python';
+    const tokens = isPython ? tokenizePython(text) : tokenizeScript(text);
+    const callPattern = isPython ? pythonCallPattern : scriptCallPattern;
+    const importsClient = (isPython ? pythonClientImportPattern : scriptClientImportPattern).test(text);
+    const statements: SqlStatement[] = [];
+
+    tokens.forEach((token, index) => {
+        if (token.kind !== 'string' || !token.verbatim) {
+            return;
+        }
+
+        const previous = index > 0 ? tokens[index - 1] : undefined;
+        const before = text.substring(previous?.end ?? 0, token.start);
+        const isMarked = previous?.kind === 'comment' &&
+            text.substring(previous.start, previous.end).includes(embeddedSqlMarker) &&
+            before.split('\n').length <= 2;
+        const isQuery = (importsClient && callPattern.test(before)) || (isPython && readGbqPattern.test(before));
+        if (!isMarked && !isQuery) {
+            return;
+        }
+
+        const content = text.substring(token.contentStart, token.contentEnd);
+        const leading = content.length - content.trimStart().length;
+        const trimmed = content.trim();
+        if (trimmed.length > 0) {
+            const startOffset = token.contentStart + leading;
+            statements.push({ text: trimmed, startOffset, endOffset: startOffset + trimmed.length });
+        }
+    });
+
+    return statements;
+}
+
+/**
+ * Limits a selection in a host file to the SQL string it overlaps
+ * @param statements The SQL strings of the file, as returned by findEmbeddedSql
+ * @param start Offset of the start of the selection
+ * @param end Offset of the end of the selection
+ * @returns The part of the selection inside the first SQL string it overlaps, or undefined if it only covers host code
+ */
+export function clipToEmbeddedSql(statements: SqlStatement[], start: number, end: number): { startOffset: number; endOffset: number } | undefined {
+    const statement = statements.find(candidate => candidate.startOffset < end && candidate.endOffset > start);
+    return statement && {
+        startOffset: Math.max(start, statement.startOffset),
+        endOffset: Math.min(end, statement.endOffset)
+    };
+}
+
+/**
+ * Finds the comments and string literals of Python code
+ * @param text The Python code
+ * @returns The tokens in the order they appear
+ */
+function tokenizePython(text: string): HostToken[] {
+    const tokens: HostToken[] = [];
+    let i = 0;
+
+    while (i < text.length) {
+        const ch = text[i];
+
+        if (ch === '#') {
+            const lineEnd = text.indexOf('\n', i);
+            const end = lineEnd === -1 ? text.length : lineEnd;
+            tokens.push({ kind: 'comment', start: i, end, contentStart: i, contentEnd: end, verbatim: true });
+            i = end;
+            continue;
+        }
+
+        if (ch === '\'' || ch === '"') {
+            // String prefixes such as r, b, f and rb directly precede the quote
+            const prefix = /[A-Za-z]{0,2}$/.exec(text.substring(Math.max(0, i - 2), i))?.[0] ?? '';
+            const isPrefix = /^[rbfu]*$/i.test(prefix) && !/\w/.test(text[i - prefix.length - 1] ?? '');
+            const quoteLength = text.startsWith(ch.repeat(3), i) ? 3 : 1;
+            const end = skipQuoted(text, i);
+            const closed = end - quoteLength >= i + quoteLength && text.startsWith(ch.repeat(quoteLength), end - quoteLength);
+            const contentEnd = closed ? end - quoteLength : end;
+            const isRaw = isPrefix && /r/i.test(prefix);
+            const hasEscapes = !isRaw && text.substring(i + quoteLength, contentEnd).includes('\\');
+            tokens.push({
+                kind: 'string',
+                start: isPrefix ? i - prefix.length : i,
+                end,
+                contentStart: i + quoteLength,
+                contentEnd,
+                verbatim: !(isPrefix && /[bf]/i.test(prefix)) && !hasEscapes
+            });
+            i = end;
+            continue;
+        }
+
+        i++;
+    }
+
+    return tokens;
+}
+
+/**
+ * Finds the comments and string literals of TypeScript or JavaScript code
+ * @param text The code
+ * @returns The tokens in the order they appear
+ */
+function tokenizeScript(text: string): HostToken[] {
+    const tokens: HostToken[] = [];
+    let i = 0;
+
+    while (i < text.length) {
+        const ch = text[i];
+
+        if (ch === '/' && (text[i + 1] === '/' || text[i + 1] === '*')) {
+            const isLineComment = text[i + 1] === '/';
+            const close = text.indexOf(isLineComment ? '\n' : '*/', i + 2);
+            const end = close === -1 ? text.length : close + (isLineComment ? 0 : 2);
+            tokens.push({ kind: 'comment', start: i, end, contentStart: i, contentEnd: end, verbatim: true });
+            i = end;
+            continue;
+        }
+
+        if (ch === '/' && isRegexStart(text, i)) {
+            i = skipRegex(text, i);
+            continue;
+        }
+
+        if (ch === '\'' || ch === '"' || ch === '`') {
+            let j = i + 1;
+            let verbatim = true;
+            // Only template literals span lines; an unclosed quote ends at the line break
+            while (j < text.length && text[j] !== ch && (ch === '`' || text[j] !== '\n')) {
+                if (text[j] === '\\') {
+                    verbatim = false;
+                    j += 2;
+                } else if (ch === '`' && text.startsWith('${', j)) {
+                    verbatim = false;
+                    j = skipSubstitution(text, j + 2);
+                } else {
+                    j++;
+                }
+            }
+            const closed = text[j] === ch;
+            const contentEnd = Math.min(j, text.length);
+            const end = closed ? j + 1 : contentEnd;
+            tokens.push({ kind: 'string', start: i, end, contentStart: i + 1, contentEnd, verbatim: verbatim && closed });
+            i = end;
+            continue;
+        }
+
+        i++;
+    }
+
+    return tokens;
+}
+
+/**
+ * Checks whether a slash starts a regular expression literal, i.e. whether an expression is expected before it
+ * @param text The code
+ * @param start Offset of the slash
+ * @returns true if the slash follows an operator, an opening bracket or a keyword such as return
+ */
+function isRegexStart(text: string, start: number): boolean {
+    let i = start - 1;
+    while (i >= 0 && /\s/.test(text[i])) {
+        i--;
+    }
+    if (i < 0 || '(,=:[!&|?{};+-*%<>~^'.includes(text[i])) {
+        return true;
+    }
+    let wordStart = i;
+    while (wordStart > 0 && /[\w$]/.test(text[wordStart - 1])) {
+        wordStart--;
+    }
+    return regexPrecedingKeywords.includes(text.substring(wordStart, i + 1));
+}
+
+/**
+ * Skips over a regular expression literal, whose quotes are no string delimiters
+ * @param text The code
+ * @param start Offset of the opening slash
+ * @returns Offset just after the closing slash, or of the line break if the literal is not closed
+ */
+function skipRegex(text: string, start: number): number {
+    let inClass = false;
+    let i = start + 1;
+    while (i < text.length && text[i] !== '\n') {
+        if (text[i] === '\\') {
+            i++;
+        } else if (text[i] === '[') {
+            inClass = true;
+        } else if (text[i] === ']') {
+            inClass = false;
+        } else if (text[i] === '/' && !inClass) {
+            return i + 1;
+        }
+        i++;
+    }
+    return i;
+}
+
+/**
+ * Skips over a ${...} substitution of a template literal, including nested braces
+ * @param text The code
+ * @param start Offset just after the opening "${"
+ * @returns Offset just after the closing brace
+ */
+function skipSubstitution(text: string, start: number): number {
+    let depth = 1;
+    let i = start;
+    while (i < text.length && depth > 0) {
+        if (text[i] === '{') {
+            depth++;
+        } else if (text[i] === '}') {
+            depth--;
+        }
+        i++;
+    }
+    return i;
+}
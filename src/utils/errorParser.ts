@@ -0,0 +1,52 @@
+/**
+ * Utility functions for parsing BigQuery error messages
+ */
+
+/**
+ * A 1-based line and column position reported by BigQuery, relative to the query text
+ */
+export interface ErrorLocation {
+    line: number;
+    column: number;
+}
+
+// BigQuery reports positions like "Unrecognized name: foo at [12:5]"
+const errorLocationPattern = /\s*\bat \[(\d+):(\d+)\]/;
+
+/**
+ * Extracts the position from a BigQuery error message
+ * @param message The error message returned by BigQuery
+ * @returns The 1-based line and column, or undefined if the message has no position
+ */
+export function parseErrorLocation(message: string): ErrorLocation | undefined {
+    const match = errorLocationPattern.exec(message);
+    if (!match) {
+        return undefined;
+    }
+
+    return {
+        line: parseInt(match[1], 10),
+        column: parseInt(match[2], 10)
+    };
+}
+
+/**
+ * Removes the position suffix from a BigQuery error message
+ * @param message The error message returned by BigQuery
+ * @returns The message without the "at [line:column]" part
+ */
+export function stripErrorLocation(message: string): string {
+    return message.replace(errorLocationPattern, '');
+}
+
+/**
+ * Builds a BigQuery-style position suffix for an offset in a query,
+ * so that locally detected errors map to the document like BigQuery errors
+ * @param text The query text
+ * @param offset The offset within the query text
+ * @returns The position suffix, e.g. "at [2:7]"
+ */
+export function formatErrorLocation(text: string, offset: number): string {
+    const lines = text.substring(0, offset).split('\n');
+    return `at [${lines.length}:${lines[lines.length - 1].length + 1}]`;
+}
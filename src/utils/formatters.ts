@@ -23,4 +23,32 @@ export function formatDataSize(bytes: number): string {
     const size = parseFloat((bytes / Math.pow(base, i)).toFixed(decimals));
     
     return `${size} ${units[i]}`;
-}
\ No newline at end of file
+}
+
+/**
+ * Formats a monetary amount in the given currency
+ * @param amount The amount to format
+ * @param currency ISO 4217 currency code, e.g. USD
+ * @returns A formatted string such as "$0.42", or "< $0.01" for non-zero amounts below one cent
+ */
+export function formatCost(amount: number, currency: string): string {
+    const format = (value: number): string => {
+        try {
+            return new Intl.NumberFormat('en-US', {
+                style: 'currency',
+                currency,
+                minimumFractionDigits: 2,
+                maximumFractionDigits: 2
+            }).format(value);
+        } catch {
+            // Unknown currency codes are shown as plain numbers with the code appended
+            return `${value.toFixed(2)} ${currency}`;
+        }
+    };
+
+    if (amount > 0 && amount < 0.01) {
+        return `< ${format(0.01)}`;
+    }
+
+    return format(amount);
+}
@@ -0,0 +1,57 @@
+/**
+ * Utility functions for matching file paths against glob patterns
+ */
+
+/**
+ * Converts a glob pattern to a regular expression.
+ * Supports `**` (any number of directories), `*` and `?` (within one path segment) and `{a,b}` alternatives.
+ * @param glob The glob pattern, using forward slashes
+ * @returns A regular expression matching whole paths
+ */
+export function globToRegExp(glob: string): RegExp {
+    let pattern = '';
+    let i = 0;
+
+    while (i < glob.length) {
+        const ch = glob[i];
+
+        if (glob.startsWith('**/', i)) {
+            pattern += '(?:.*/)?';
+            i += 3;
+        } else if (glob.startsWith('**', i)) {
+            pattern += '.*';
+            i += 2;
+        } else if (ch === '*') {
+            pattern += '[^/]*';
+            i++;
+        } else if (ch === '?') {
+            pattern += '[^/]';
+            i++;
+        } else if (ch === '{') {
+            const close = glob.indexOf('}', i);
+            if (close === -1) {
+                pattern += '\\{';
+                i++;
+                continue;
+            }
+            const alternatives = glob.substring(i + 1, close).split(',').map(alternative => globToRegExp(alternative).source.slice(1, -1));
+            pattern += `(?:${alternatives.join('|')})`;
+            i = close + 1;
+        } else {
+            pattern += ch.replace(/[.+^$()|[\]\\]/g, '\\$&');
+            i++;
+        }
+    }
+
+    return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Checks whether a path matches a glob pattern
+ * @param path The path to check, relative to the folder the pattern applies to
+ * @param glob The glob pattern
+ * @returns true if the path matches
+ */
+export function matchesGlob(path: string, glob: string): boolean {
+    return globToRegExp(glob).test(path.replace(/\\/g, '/'));
+}
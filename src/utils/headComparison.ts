@@ -0,0 +1,124 @@
+/**
+ * Utility functions for comparing the scan of a query with its committed version
+ */
+import { formatCost, formatDataSize } from './formatters';
+import { flattenSchema, SchemaField } from './schemaFormatter';
+
+/**
+ * The combined dry run results of one version of a file or statement
+ */
+export interface ScanSide {
+    bytes: number;
+    cost: number;
+    statementTypes: string[];
+    /** Fully qualified names of the referenced tables */
+    tables: string[];
+    /** Schema of the result; for several statements, of the last one that returns rows */
+    schema: SchemaField[];
+    errors: string[];
+}
+
+/**
+ * A column that was added, removed or changed between two result schemas
+ */
+export interface SchemaChange {
+    path: string;
+    /** Type and mode in the old schema, undefined if the column was added */
+    before?: string;
+    /** Type and mode in the new schema, undefined if the column was removed */
+    after?: string;
+}
+
+/**
+ * Formats the difference in scan size for the status bar
+ * @param headBytes The bytes scanned by the committed version
+ * @param workingBytes The bytes scanned by the working copy
+ * @returns A string such as "+2.3 GB vs HEAD", or "same as HEAD" if the size did not change
+ */
+export function formatHeadDelta(headBytes: number, workingBytes: number): string {
+    const delta = workingBytes - headBytes;
+    if (delta === 0) {
+        return 'same as HEAD';
+    }
+    return `${delta > 0 ? '+' : '-'}${formatDataSize(Math.abs(delta))} vs HEAD`;
+}
+
+/**
+ * Lists the columns that differ between two result schemas, including nested fields
+ * @param before The old schema
+ * @param after The new schema
+ * @returns The changes in the order of the new schema, followed by removed columns
+ */
+export function diffSchemas(before: SchemaField[], after: SchemaField[]): SchemaChange[] {
+    const describe = (fields: SchemaField[]) => new Map(flattenSchema(fields).map(field => [field.path, `${field.type} ${field.mode}`]));
+    const beforeFields = describe(before);
+    const afterFields = describe(after);
+
+    const changes: SchemaChange[] = [];
+    afterFields.forEach((type, path) => {
+        if (beforeFields.get(path) !== type) {
+            changes.push({ path, before: beforeFields.get(path), after: type });
+        }
+    });
+    beforeFields.forEach((type, path) => {
+        if (!afterFields.has(path)) {
+            changes.push({ path, before: type });
+        }
+    });
+    return changes;
+}
+
+/**
+ * Formats a comparison of the committed version and the working copy as Markdown
+ * @param title What was compared, e.g. the file path and statement
+ * @param head The committed version, or undefined if it does not exist
+ * @param working The working copy
+ * @param currency ISO 4217 currency code used for costs
+ * @returns The Markdown text
+ */
+export function formatComparisonMarkdown(title: string, head: ScanSide | undefined, working: ScanSide, currency: string): string {
+    const escape = (text: string) => text.replace(/\|/g, '\\|').replace(/\s+/g, ' ');
+    const missing = '—';
+    const value = (format: (side: ScanSide) => string) => head ? format(head) : missing;
+    const outcome = (side: ScanSide) => side.errors.length > 0 ? `Error: ${escape(side.errors.join('; '))}` : 'OK';
+    const formatChange = (delta: number, format: (amount: number) => string) => {
+        if (!head) {
+            return missing;
+        }
+        return delta === 0 ? 'no change' : `${delta > 0 ? '+' : '-'}${format(Math.abs(delta))}`;
+    };
+    const bytesChange = formatChange(working.bytes - (head?.bytes ?? 0), formatDataSize);
+    const costChange = formatChange(working.cost - (head?.cost ?? 0), amount => formatCost(amount, currency));
+
+    const lines = [
+        `# Compare with HEAD: ${title}`,
+        '',
+        '| | HEAD | Working copy | Change |',
+        '| --- | --- | --- | --- |',
+        `| Scan | ${value(side => formatDataSize(side.bytes))} | ${formatDataSize(working.bytes)} | ${bytesChange} |`,
+        `| Cost | ${value(side => formatCost(side.cost, currency))} | ${formatCost(working.cost, currency)} | ${costChange} |`,
+        `| Statement type | ${value(side => side.statementTypes.join(', ') || missing)} | ${working.statementTypes.join(', ') || missing} | |`,
+        `| Result | ${value(outcome)} | ${outcome(working)} | |`
+    ];
+
+    const tables = [...new Set([...(head?.tables ?? []), ...working.tables])].sort();
+    lines.push('', '## Referenced tables', '');
+    if (tables.length === 0) {
+        lines.push('No tables referenced.');
+    } else {
+        lines.push('| Table | HEAD | Working copy |', '| --- | :---: | :---: |');
+        const mark = (side: ScanSide | undefined, table: string) => side?.tables.includes(table) ? '✓' : '';
+        tables.forEach(table => lines.push(`| \`${table}\` | ${mark(head, table)} | ${mark(working, table)} |`));
+    }
+
+    const changes = diffSchemas(head?.schema ?? [], working.schema);
+    lines.push('', '## Result schema', '');
+    if (changes.length === 0) {
+        lines.push('No schema changes.');
+    } else {
+        lines.push('| Column | HEAD | Working copy |', '| --- | --- | --- |');
+        changes.forEach(change => lines.push(`| \`${change.path}\` | ${change.before ?? missing} | ${change.after ?? missing} |`));
+    }
+
+    return lines.join('\n');
+}
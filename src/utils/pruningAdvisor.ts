@@ -0,0 +1,209 @@
+/**
+ * Utility functions for finding queries that miss partition or clustering filters
+ */
+import { maskCommentsAndStrings } from './sqlSplitter';
+import { TableMetadata } from './tableMetadata';
+
+/**
+ * Advice for a table whose partitioning or clustering the query does not use
+ */
+export interface PruningAdvice {
+    message: string;
+    /** Offset of the table name within the query, if it appears there */
+    offset?: number;
+}
+
+/**
+ * A column that a WHERE or ON clause compares to a constant or parameter
+ */
+export interface ColumnFilter {
+    /** The column name in lower case */
+    column: string;
+    /** The table name or alias the column is qualified with, in lower case */
+    qualifier?: string;
+}
+
+// Pseudo columns that filter ingestion-time partitioned tables
+const ingestionTimeColumns = ['_PARTITIONTIME', '_PARTITIONDATE'];
+
+// Keywords that start a clause whose predicates can prune partitions
+const filterClausePattern = /\b(?:WHERE|ON)\b/gi;
+// Keywords that end a filter clause
+const clauseEndPattern = /\b(?:WHERE|ON|GROUP|ORDER|LIMIT|WINDOW|HAVING|QUALIFY|UNION|INTERSECT|EXCEPT|SELECT|FROM|JOIN|USING|WHEN)\b|;/gi;
+// Connectives between predicates; the AND of a BETWEEN is not one
+const connectivePattern = /\b(?:AND|OR|BETWEEN)\b/gi;
+// Operators that compare a column to a value in a way that can prune
+const comparisonPattern = /<=|>=|<>|!=|=|<|>|\b(?:IN|LIKE|BETWEEN)\b/i;
+// Possibly qualified names; names directly after @ are parameters and names inside numbers are exponents
+const namePattern = /(?<![\w@$.])(?:`[^`]*`|[A-Za-z_][A-Za-z0-9_]*)(?:\s*\.\s*(?:`[^`]*`|[A-Za-z_][A-Za-z0-9_]*))*/g;
+// Words that may appear in constant expressions, e.g. DATE '2024-01-01' or INTERVAL 7 DAY
+const constantKeywords = new Set([
+    'and', 'not', 'null', 'true', 'false', 'as', 'interval', 'date', 'datetime', 'time', 'timestamp',
+    'current_date', 'current_datetime', 'current_time', 'current_timestamp',
+    'microsecond', 'millisecond', 'second', 'minute', 'hour', 'day', 'week', 'month', 'quarter', 'year'
+]);
+// Words after a table name that are not its alias
+const aliasStopWords = new Set([
+    'where', 'join', 'on', 'using', 'left', 'right', 'inner', 'full', 'cross', 'outer', 'group', 'order',
+    'limit', 'union', 'intersect', 'except', 'window', 'qualify', 'having', 'for', 'tablesample'
+]);
+
+/**
+ * Finds the column names of an expression, leaving out function names, keywords and parameters
+ * @param expression The masked expression
+ * @returns The column names with their qualifiers, in lower case
+ */
+function findColumns(expression: string): ColumnFilter[] {
+    const columns: ColumnFilter[] = [];
+    for (const match of expression.matchAll(namePattern)) {
+        const isFunction = /^\s*\(/.test(expression.substring((match.index ?? 0) + match[0].length));
+        const parts = match[0].replace(/[`\s]/g, '').toLowerCase().split('.');
+        if (isFunction || (parts.length === 1 && constantKeywords.has(parts[0]))) {
+            continue;
+        }
+        columns.push({ column: parts[parts.length - 1], qualifier: parts.length > 1 ? parts[parts.length - 2] : undefined });
+    }
+    return columns;
+}
+
+/**
+ * Splits a filter clause into its predicates at AND and OR, removing the parentheses that group them
+ * @param clause The masked clause
+ * @returns The predicates
+ */
+function splitPredicates(clause: string): string[] {
+    const predicates: string[] = [];
+    let start = 0;
+    let inBetween = false;
+
+    for (const connective of clause.matchAll(connectivePattern)) {
+        const word = connective[0].toUpperCase();
+        if (word === 'BETWEEN' || (word === 'AND' && inBetween)) {
+            inBetween = word === 'BETWEEN';
+            continue;
+        }
+        predicates.push(clause.substring(start, connective.index));
+        start = (connective.index ?? 0) + connective[0].length;
+    }
+    predicates.push(clause.substring(start));
+
+    return predicates.map(predicate => {
+        let trimmed = predicate.trim().replace(/^NOT\b/i, '').trim();
+        const count = (ch: string) => trimmed.split(ch).length - 1;
+        while (trimmed.startsWith('(') && count('(') > count(')')) {
+            trimmed = trimmed.substring(1).trim();
+        }
+        while (trimmed.endsWith(')') && count(')') > count('(')) {
+            trimmed = trimmed.substring(0, trimmed.length - 1).trim();
+        }
+        return trimmed;
+    });
+}
+
+/**
+ * Finds the columns that the WHERE and ON clauses of a query compare to a constant or parameter.
+ * Comparisons between columns, such as join keys, do not prune partitions and are left out.
+ * @param sql The SQL query
+ * @returns The filtered columns with the table name or alias they are qualified with
+ */
+export function findFilteredColumns(sql: string): ColumnFilter[] {
+    const masked = maskCommentsAndStrings(sql);
+    const filters: ColumnFilter[] = [];
+
+    for (const clause of masked.matchAll(filterClausePattern)) {
+        const start = (clause.index ?? 0) + clause[0].length;
+        clauseEndPattern.lastIndex = start;
+        const end = clauseEndPattern.exec(masked)?.index ?? masked.length;
+
+        for (const predicate of splitPredicates(masked.substring(start, end))) {
+            const comparison = comparisonPattern.exec(predicate);
+            if (!comparison) {
+                continue;
+            }
+            // String literals are masked, so a constant side has no columns left
+            const left = findColumns(predicate.substring(0, comparison.index).replace(/\bNOT\s*$/i, ''));
+            const right = findColumns(predicate.substring(comparison.index + comparison[0].length));
+            if (left.length === 0 || right.length === 0) {
+                filters.push(...left, ...right);
+            }
+        }
+    }
+
+    return filters;
+}
+
+/**
+ * Finds the names a query can qualify the columns of a table with: the table name and its aliases
+ * @param masked The SQL query with comments and strings masked
+ * @param tableId The table name without project and dataset
+ * @returns The qualifiers in lower case
+ */
+function findTableQualifiers(masked: string, tableId: string): string[] {
+    const escaped = tableId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const aliasPattern = new RegExp(`(?:^|[^A-Za-z0-9_])${escaped}\`?\\s+(?:AS\\s+)?([A-Za-z_][A-Za-z0-9_]*)`, 'gi');
+    const qualifiers = [tableId.toLowerCase()];
+    for (const match of masked.matchAll(aliasPattern)) {
+        const alias = match[1].toLowerCase();
+        if (!aliasStopWords.has(alias)) {
+            qualifiers.push(alias);
+        }
+    }
+    return qualifiers;
+}
+
+/**
+ * Finds where a table is named in a query
+ * @param sql The SQL query
+ * @param tableId The table name without project and dataset
+ * @returns The offset of the first occurrence, or undefined if the name does not appear
+ */
+function findTableOffset(sql: string, tableId: string): number | undefined {
+    const escaped = tableId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const match = new RegExp(`(^|[^A-Za-z0-9_])${escaped}(?![A-Za-z0-9_])`, 'i').exec(maskCommentsAndStrings(sql));
+    return match ? match.index + match[1].length : undefined;
+}
+
+/**
+ * Checks whether a query filters on the partitioning and the first clustering column of each table it reads
+ * @param sql The SQL query
+ * @param tables The tables the query references with their metadata
+ * @returns Advice for each partitioning or clustering column without a filter
+ */
+export function getPruningAdvice(sql: string, tables: Array<{ tableId: string; metadata: TableMetadata }>): PruningAdvice[] {
+    const filters = findFilteredColumns(sql);
+    const masked = maskCommentsAndStrings(sql);
+    const advice: PruningAdvice[] = [];
+
+    for (const { tableId, metadata } of tables) {
+        const offset = findTableOffset(sql, tableId);
+        // A filter applies to the table unless it is qualified with another table or alias
+        const qualifiers = findTableQualifiers(masked, tableId);
+        const isFiltered = (column: string) => filters.some(filter =>
+            filter.column === column.toLowerCase() && (!filter.qualifier || qualifiers.includes(filter.qualifier)));
+        const { partitioning, clusteringFields } = metadata;
+
+        if (partitioning?.field && !isFiltered(partitioning.field)) {
+            advice.push({
+                message: metadata.requirePartitionFilter ?
+                    `${tableId} requires a filter on its partitioning column ${partitioning.field} but none was found` :
+                    `${tableId} is partitioned by ${partitioning.field} but no filter found`,
+                offset
+            });
+        } else if (partitioning && !partitioning.field && !ingestionTimeColumns.some(isFiltered)) {
+            advice.push({
+                message: `${tableId} is partitioned by ingestion time but no filter on ${ingestionTimeColumns.join(' or ')} found`,
+                offset
+            });
+        }
+
+        // Clustering only prunes blocks when the first clustering column is filtered
+        if (clusteringFields.length > 0 && !isFiltered(clusteringFields[0])) {
+            advice.push({
+                message: `${tableId} is clustered by ${clusteringFields.join(', ')} but no filter on ${clusteringFields[0]} found`,
+                offset
+            });
+        }
+    }
+
+    return advice;
+}
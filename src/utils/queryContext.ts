@@ -0,0 +1,103 @@
+/**
+ * Utility functions for resolving the project, location and dataset a query runs against
+ */
+import { getHeaderComment } from './sqlSplitter';
+
+/**
+ * Project, location and default dataset used for a dry run. Empty strings mean "not set".
+ */
+export interface QueryContext {
+    projectId: string;
+    billingProjectId: string;
+    location: string;
+    defaultDataset: string;
+}
+
+const contextKeys: Array<keyof QueryContext> = ['projectId', 'billingProjectId', 'location', 'defaultDataset'];
+
+// Header lines such as "-- @location EU" or "-- @defaultDataset analytics"
+const contextDirectivePattern = /^\s*(?:--|#|\/?\*+)?\s*@(projectId|billingProjectId|location|defaultDataset)\s+([A-Za-z0-9_.:-]+)\s*(?:\*\/)?\s*$/i;
+
+/**
+ * Parses project, location and dataset directives from the header comment of a SQL file
+ * @param sql The SQL text of the file
+ * @returns The values set by the file
+ */
+export function parseContextDirectives(sql: string): Partial<QueryContext> {
+    const overrides: Partial<QueryContext> = {};
+
+    for (const line of getHeaderComment(sql).split(/\r?\n/)) {
+        const match = contextDirectivePattern.exec(line);
+        if (match) {
+            const key = contextKeys.find(k => k.toLowerCase() === match[1].toLowerCase());
+            if (key) {
+                overrides[key] = match[2];
+            }
+        }
+    }
+
+    return overrides;
+}
+
+/**
+ * Applies file-level overrides on top of the configured context
+ * @param settings The context from the settings
+ * @param overrides Values set by the file header
+ * @returns The effective context
+ */
+export function resolveQueryContext(settings: QueryContext, overrides: Partial<QueryContext>): QueryContext {
+    return {
+        projectId: overrides.projectId ?? settings.projectId,
+        billingProjectId: overrides.billingProjectId ?? settings.billingProjectId,
+        location: overrides.location ?? settings.location,
+        defaultDataset: overrides.defaultDataset ?? settings.defaultDataset
+    };
+}
+
+/**
+ * Gets the project the dry run job is created in
+ * @param context The effective context
+ * @returns The billing project, falling back to the project, or undefined to use the credentials' project
+ */
+export function getJobProjectId(context: QueryContext): string | undefined {
+    return context.billingProjectId || context.projectId || undefined;
+}
+
+/**
+ * Parses the default dataset into the reference expected by the BigQuery API
+ * @param context The effective context
+ * @returns The dataset reference, or undefined if no default dataset is set
+ */
+export function getDefaultDatasetReference(context: QueryContext): { projectId?: string; datasetId: string } | undefined {
+    if (!context.defaultDataset) {
+        return undefined;
+    }
+
+    // Accept both "dataset" and "project.dataset" (or "project:dataset")
+    const separatorIndex = Math.max(context.defaultDataset.lastIndexOf('.'), context.defaultDataset.lastIndexOf(':'));
+    if (separatorIndex === -1) {
+        return { projectId: context.projectId || undefined, datasetId: context.defaultDataset };
+    }
+
+    return {
+        projectId: context.defaultDataset.substring(0, separatorIndex),
+        datasetId: context.defaultDataset.substring(separatorIndex + 1)
+    };
+}
+
+/**
+ * Describes the effective context for tooltips
+ * @param context The effective context
+ * @returns One line listing the values in use
+ */
+export function formatQueryContext(context: QueryContext): string {
+    const parts = [`Project: ${context.projectId || 'default from credentials'}`];
+    if (context.billingProjectId) {
+        parts.push(`Billing project: ${context.billingProjectId}`);
+    }
+    parts.push(`Location: ${context.location || 'auto'}`);
+    if (context.defaultDataset) {
+        parts.push(`Default dataset: ${context.defaultDataset}`);
+    }
+    return parts.join(' · ');
+}
@@ -0,0 +1,204 @@
+/**
+ * Utility functions for declaring and detecting BigQuery query parameters
+ */
+import { getHeaderComment, skipQuoted } from './sqlSplitter';
+
+/**
+ * A query parameter declaration. Parameters without a name (or named "?") are positional.
+ */
+export interface QueryParameter {
+    name?: string;
+    type: string;
+    value: unknown;
+}
+
+/**
+ * A parameter reference found in a query
+ */
+export interface ParameterUsage {
+    /** Parameter name without the @ prefix, or undefined for a positional ? parameter */
+    name?: string;
+    offset: number;
+}
+
+// Header lines such as "-- @param start_date DATE '2024-01-01'" or "-- @param ? INT64 10"
+const parameterDeclarationPattern = /^\s*(?:--|#|\/?\*+)?\s*@param\s+(\?|[A-Za-z_][A-Za-z0-9_]*)\s+([A-Za-z0-9_<>]+)\s+(.*?)\s*(?:\*\/)?\s*$/i;
+
+/**
+ * Parses parameter declarations from the header comment of a SQL file,
+ * i.e. the comments before the first statement
+ * @param sql The SQL text of the file
+ * @returns The declared parameters, positional parameters in declaration order
+ */
+export function parseParameterHeader(sql: string): QueryParameter[] {
+    const parameters: QueryParameter[] = [];
+
+    for (const line of getHeaderComment(sql).split(/\r?\n/)) {
+        const match = parameterDeclarationPattern.exec(line);
+        if (match) {
+            parameters.push({
+                name: match[1] === '?' ? undefined : match[1],
+                type: match[2].toUpperCase(),
+                value: parseParameterValue(match[3])
+            });
+        }
+    }
+
+    return parameters;
+}
+
+/**
+ * Parses a declared parameter value as JSON, falling back to the text without SQL quotes
+ * @param text The value text from the declaration
+ * @returns The parsed value
+ */
+function parseParameterValue(text: string): unknown {
+    if (/^NULL$/i.test(text)) {
+        return null;
+    }
+
+    try {
+        return JSON.parse(text);
+    } catch {
+        const quoted = /^(['"])(.*)\1$/.exec(text);
+        return quoted ? quoted[2] : text;
+    }
+}
+
+/**
+ * Combines parameters from settings with those declared in a file header.
+ * Header declarations override named settings, and replace positional settings if any are declared.
+ * @param settingsParameters Parameters from the workspace settings
+ * @param headerParameters Parameters declared in the file header
+ * @returns The effective parameters
+ */
+export function mergeParameters(settingsParameters: QueryParameter[], headerParameters: QueryParameter[]): QueryParameter[] {
+    const isPositional = (parameter: QueryParameter) => !parameter.name || parameter.name === '?';
+    const headerNames = new Set(headerParameters.filter(p => !isPositional(p)).map(p => p.name));
+    const hasHeaderPositional = headerParameters.some(isPositional);
+
+    const keptSettings = settingsParameters.filter(parameter => isPositional(parameter) ?
+        !hasHeaderPositional :
+        !headerNames.has(parameter.name));
+
+    return [...keptSettings, ...headerParameters].map(parameter => ({
+        ...parameter,
+        name: isPositional(parameter) ? undefined : parameter.name
+    }));
+}
+
+/**
+ * Finds @named and ? positional parameter references in a query, ignoring strings,
+ * quoted identifiers, comments and @@system variables
+ * @param sql The SQL query
+ * @returns The parameter references in the order they appear
+ */
+export function findParameterUsages(sql: string): ParameterUsage[] {
+    const usages: ParameterUsage[] = [];
+    let i = 0;
+
+    while (i < sql.length) {
+        const ch = sql[i];
+
+        if ((ch === '-' && sql[i + 1] === '-') || ch === '#') {
+            const lineEnd = sql.indexOf('\n', i);
+            i = lineEnd === -1 ? sql.length : lineEnd + 1;
+        } else if (ch === '/' && sql[i + 1] === '*') {
+            const commentEnd = sql.indexOf('*/', i + 2);
+            i = commentEnd === -1 ? sql.length : commentEnd + 2;
+        } else if (ch === '\'' || ch === '"' || ch === '`') {
+            i = skipQuoted(sql, i);
+        } else if (ch === '@' && sql[i + 1] === '@') {
+            // System variable such as @@project_id
+            i += 2;
+            while (i < sql.length && /[A-Za-z0-9_.]/.test(sql[i])) {
+                i++;
+            }
+        } else if (ch === '@' && /[A-Za-z_]/.test(sql[i + 1] ?? '')) {
+            const start = i;
+            i++;
+            while (i < sql.length && /[A-Za-z0-9_]/.test(sql[i])) {
+                i++;
+            }
+            usages.push({ name: sql.substring(start + 1, i), offset: start });
+        } else if (ch === '?') {
+            usages.push({ offset: i });
+            i++;
+        } else {
+            i++;
+        }
+    }
+
+    return usages;
+}
+
+/**
+ * Converts a declared SQL type into the type notation of the BigQuery client,
+ * e.g. "ARRAY<STRING>" becomes ["STRING"]
+ * @param type The declared SQL type
+ * @returns The client type
+ */
+export function toClientType(type: string): string | string[] {
+    const arrayMatch = /^ARRAY<\s*([A-Za-z0-9_]+)\s*>$/i.exec(type.trim());
+    return arrayMatch ? [arrayMatch[1].toUpperCase()] : type.trim().toUpperCase();
+}
+
+/**
+ * Query parameters in the shape expected by the BigQuery client's createQueryJob
+ */
+export interface ParameterBindings {
+    params?: Record<string, unknown> | unknown[];
+    types?: Record<string, string | string[]> | Array<string | string[]>;
+    /** Parameter references that have no matching declaration */
+    undeclared: ParameterUsage[];
+}
+
+/**
+ * Matches the parameters referenced by a query with their declarations.
+ * Only referenced parameters are bound; named parameters take precedence over positional ones.
+ * @param sql The SQL query
+ * @param parameters The declared parameters
+ * @returns The bindings to send with the query, and any undeclared references
+ */
+export function bindParameters(sql: string, parameters: QueryParameter[]): ParameterBindings {
+    const usages = findParameterUsages(sql);
+    const namedUsages = usages.filter(usage => usage.name);
+    const positionalUsages = usages.filter(usage => !usage.name);
+
+    if (namedUsages.length > 0) {
+        // Parameter names are case-insensitive in BigQuery
+        const declared = new Map(parameters
+            .filter(parameter => parameter.name)
+            .map(parameter => [parameter.name!.toLowerCase(), parameter]));
+        const params: Record<string, unknown> = {};
+        const types: Record<string, string | string[]> = {};
+        const undeclared: ParameterUsage[] = [];
+
+        for (const usage of namedUsages) {
+            const parameter = declared.get(usage.name!.toLowerCase());
+            if (!parameter) {
+                if (!undeclared.some(u => u.name!.toLowerCase() === usage.name!.toLowerCase())) {
+                    undeclared.push(usage);
+                }
+                continue;
+            }
+            params[usage.name!] = parameter.value;
+            types[usage.name!] = toClientType(parameter.type);
+        }
+
+        return { params, types, undeclared };
+    }
+
+    if (positionalUsages.length > 0) {
+        const declared = parameters.filter(parameter => !parameter.name);
+        const bound = declared.slice(0, positionalUsages.length);
+
+        return {
+            params: bound.map(parameter => parameter.value),
+            types: bound.map(parameter => toClientType(parameter.type)),
+            undeclared: positionalUsages.slice(declared.length)
+        };
+    }
+
+    return { undeclared: [] };
+}
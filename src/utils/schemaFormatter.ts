@@ -0,0 +1,56 @@
+/**
+ * Utility functions for displaying query result schemas
+ */
+
+/**
+ * A field of a query result schema, as returned by a dry run
+ */
+export interface SchemaField {
+    name: string;
+    type: string;
+    mode?: string;
+    description?: string;
+    fields?: SchemaField[];
+}
+
+/**
+ * A schema field with its full path, e.g. "address.city" for a nested field
+ */
+export interface FlattenedSchemaField {
+    path: string;
+    type: string;
+    mode: string;
+    depth: number;
+}
+
+/**
+ * Flattens nested RECORD fields into a list of fields with dotted paths
+ * @param fields The schema fields
+ * @param parentPath Path of the parent record, used for recursion
+ * @param depth Nesting depth, used for recursion
+ * @returns Every field in schema order, parents before their children
+ */
+export function flattenSchema(fields: SchemaField[], parentPath = '', depth = 0): FlattenedSchemaField[] {
+    return fields.flatMap(field => {
+        const path = parentPath ? `${parentPath}.${field.name}` : field.name;
+        const flattened: FlattenedSchemaField = {
+            path,
+            type: field.type,
+            mode: field.mode ?? 'NULLABLE',
+            depth
+        };
+        return [flattened, ...flattenSchema(field.fields ?? [], path, depth + 1)];
+    });
+}
+
+/**
+ * Formats a schema as a Markdown table of column names, types and modes
+ * @param fields The schema fields
+ * @returns The Markdown table
+ */
+export function formatSchemaMarkdown(fields: SchemaField[]): string {
+    const rows = flattenSchema(fields).map(field =>
+        `| ${'&nbsp;&nbsp;'.repeat(field.depth)}\`${field.path}\` | ${field.type} | ${field.mode} |`);
+
+    return ['| Column | Type | Mode |', '| --- | --- | --- |', ...rows].join('\n');
+}
@@ -0,0 +1,283 @@
+/**
+ * Utility functions for splitting SQL files into individual statements
+ */
+
+/**
+ * A single statement found in a SQL text
+ */
+export interface SqlStatement {
+    text: string;
+    startOffset: number;
+    endOffset: number;
+}
+
+// Scripting keywords that open a block when they start a statement
+const statementBlockKeywords = new Set(['IF', 'WHILE', 'LOOP', 'REPEAT', 'FOR']);
+// Keywords that may follow END to close a specific kind of block
+const endBlockSuffixes = new Set(['IF', 'WHILE', 'LOOP', 'REPEAT', 'FOR', 'CASE']);
+// Keywords after which a new statement starts inside a scripting block
+const statementStartKeywords = new Set(['THEN', 'ELSE', 'DO', 'LOOP', 'REPEAT', 'BEGIN']);
+
+/**
+ * Splits SQL text into individual statements on top-level semicolons.
+ * Semicolons inside strings, quoted identifiers, comments and
+ * BEGIN...END / IF...END IF / LOOP...END LOOP style script blocks are ignored.
+ * Leading and trailing comments are not part of a statement's range.
+ * @param sql The SQL text to split
+ * @returns The statements in the order they appear in the text
+ */
+export function splitSqlStatements(sql: string): SqlStatement[] {
+    const statements: SqlStatement[] = [];
+    const blocks: string[] = [];
+    let statementStart = -1;
+    let lastTokenEnd = -1;
+    let atStatementStart = true;
+    let previousWord = '';
+    let i = 0;
+
+    const pushStatement = () => {
+        if (statementStart >= 0 && lastTokenEnd > statementStart) {
+            statements.push({
+                text: sql.substring(statementStart, lastTokenEnd),
+                startOffset: statementStart,
+                endOffset: lastTokenEnd
+            });
+        }
+        statementStart = -1;
+    };
+
+    while (i < sql.length) {
+        const ch = sql[i];
+
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+
+        // Line comments (-- and #)
+        if ((ch === '-' && sql[i + 1] === '-') || ch === '#') {
+            const lineEnd = sql.indexOf('\n', i);
+            i = lineEnd === -1 ? sql.length : lineEnd + 1;
+            continue;
+        }
+
+        // Block comments
+        if (ch === '/' && sql[i + 1] === '*') {
+            const commentEnd = sql.indexOf('*/', i + 2);
+            i = commentEnd === -1 ? sql.length : commentEnd + 2;
+            continue;
+        }
+
+        if (statementStart < 0) {
+            statementStart = i;
+        }
+
+        if (ch === '\'' || ch === '"' || ch === '`') {
+            i = skipQuoted(sql, i);
+            lastTokenEnd = i;
+            atStatementStart = false;
+            previousWord = '';
+            continue;
+        }
+
+        if (ch === ';') {
+            if (blocks.length === 0) {
+                pushStatement();
+            }
+            i++;
+            atStatementStart = true;
+            previousWord = '';
+            continue;
+        }
+
+        if (/[A-Za-z_]/.test(ch)) {
+            const wordStart = i;
+            while (i < sql.length && /[A-Za-z0-9_]/.test(sql[i])) {
+                i++;
+            }
+            lastTokenEnd = i;
+
+            const word = sql.substring(wordStart, i).toUpperCase();
+            const wasAtStatementStart = atStatementStart;
+            atStatementStart = false;
+
+            if (previousWord === 'END' && endBlockSuffixes.has(word)) {
+                // END IF, END LOOP, etc. - the block was already closed by END
+                previousWord = '';
+                continue;
+            }
+
+            if (word === 'END') {
+                blocks.pop();
+            } else if (word === 'BEGIN') {
+                // BEGIN / BEGIN TRANSACTION start a transaction, not a block
+                const nextWord = peekWord(sql, i);
+                if (nextWord !== 'TRANSACTION' && nextWord !== 'TRAN' && nextWord !== ';' && nextWord !== '') {
+                    blocks.push(word);
+                    atStatementStart = true;
+                }
+            } else if (word === 'CASE') {
+                blocks.push(word);
+            } else if (wasAtStatementStart && statementBlockKeywords.has(word) && peekWord(sql, i) !== '(') {
+                blocks.push(word);
+                atStatementStart = word === 'LOOP' || word === 'REPEAT';
+            } else if (statementStartKeywords.has(word) && blocks.length > 0 && blocks[blocks.length - 1] !== 'CASE') {
+                atStatementStart = true;
+            }
+
+            previousWord = word;
+            continue;
+        }
+
+        // Any other character (operators, numbers, punctuation)
+        i++;
+        lastTokenEnd = i;
+        atStatementStart = false;
+        previousWord = '';
+    }
+
+    pushStatement();
+    return statements;
+}
+
+/**
+ * Finds the statement that contains an offset
+ * @param sql The SQL text
+ * @param offset The offset, e.g. of the cursor
+ * @returns The statement containing the offset (inclusive of its end), or undefined
+ */
+export function findStatementAtOffset(sql: string, offset: number): SqlStatement | undefined {
+    return splitSqlStatements(sql).find(statement => offset >= statement.startOffset && offset <= statement.endOffset);
+}
+
+/**
+ * Gets the header of a SQL file, i.e. the comments before the first statement
+ * @param sql The SQL text of the file
+ * @returns The header text, or the whole text if it contains no statement
+ */
+export function getHeaderComment(sql: string): string {
+    const firstStatement = splitSqlStatements(sql)[0];
+    return sql.substring(0, firstStatement ? firstStatement.startOffset : sql.length);
+}
+
+/**
+ * Replaces comments and string literals with spaces, keeping offsets and line breaks intact.
+ * Backtick-quoted identifiers are kept so that table and column names remain visible.
+ * @param sql The SQL text
+ * @returns The text with only code and identifiers left
+ */
+export function maskCommentsAndStrings(sql: string): string {
+    const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+    let masked = '';
+    let i = 0;
+
+    while (i < sql.length) {
+        const ch = sql[i];
+        let end = i + 1;
+
+        if ((ch === '-' && sql[i + 1] === '-') || ch === '#') {
+            const lineEnd = sql.indexOf('\n', i);
+            end = lineEnd === -1 ? sql.length : lineEnd;
+        } else if (ch === '/' && sql[i + 1] === '*') {
+            const commentEnd = sql.indexOf('*/', i + 2);
+            end = commentEnd === -1 ? sql.length : commentEnd + 2;
+        } else if (ch === '\'' || ch === '"') {
+            end = skipQuoted(sql, i);
+        } else if (ch === '`') {
+            end = skipQuoted(sql, i);
+            masked += sql.substring(i, end);
+            i = end;
+            continue;
+        } else {
+            masked += ch;
+            i = end;
+            continue;
+        }
+
+        masked += blank(sql.substring(i, end));
+        i = end;
+    }
+
+    return masked;
+}
+
+/**
+ * Normalizes statement text so that results survive whitespace-only edits.
+ * Whitespace inside string literals and quoted identifiers is part of the query and kept as is.
+ * @param text The statement text
+ * @returns The normalized statement text
+ */
+export function normalizeStatementText(text: string): string {
+    const sql = text.trim();
+    let normalized = '';
+    let i = 0;
+
+    while (i < sql.length) {
+        const ch = sql[i];
+        let end = i + 1;
+
+        if ((ch === '-' && sql[i + 1] === '-') || ch === '#') {
+            // Quotes in comments do not start strings
+            const lineEnd = sql.indexOf('\n', i);
+            end = lineEnd === -1 ? sql.length : lineEnd;
+        } else if (ch === '/' && sql[i + 1] === '*') {
+            const commentEnd = sql.indexOf('*/', i + 2);
+            end = commentEnd === -1 ? sql.length : commentEnd + 2;
+        } else if (ch === '\'' || ch === '"' || ch === '`') {
+            end = skipQuoted(sql, i);
+            normalized += sql.substring(i, end);
+            i = end;
+            continue;
+        } else if (/\s/.test(ch)) {
+            while (end < sql.length && /\s/.test(sql[end])) {
+                end++;
+            }
+            normalized += ' ';
+            i = end;
+            continue;
+        }
+
+        normalized += sql.substring(i, end).replace(/\s+/g, ' ');
+        i = end;
+    }
+
+    return normalized;
+}
+
+/**
+ * Skips over a quoted string or identifier, including triple-quoted strings
+ * @param sql The SQL text
+ * @param start Offset of the opening quote
+ * @returns Offset just after the closing quote
+ */
+export function skipQuoted(sql: string, start: number): number {
+    const quote = sql[start];
+    const tripleQuote = quote.repeat(3);
+    const delimiter = quote !== '`' && sql.startsWith(tripleQuote, start) ? tripleQuote : quote;
+    let i = start + delimiter.length;
+
+    while (i < sql.length) {
+        if (sql[i] === '\\') {
+            i += 2;
+            continue;
+        }
+        if (sql.startsWith(delimiter, i)) {
+            return i + delimiter.length;
+        }
+        i++;
+    }
+
+    return sql.length;
+}
+
+/**
+ * Returns the next word (upper-cased) or punctuation character after an offset,
+ * skipping whitespace
+ * @param sql The SQL text
+ * @param offset Offset to start looking from
+ * @returns The next word or character, or an empty string at end of text
+ */
+function peekWord(sql: string, offset: number): string {
+    const match = /^\s*([A-Za-z_][A-Za-z0-9_]*|\S)?/.exec(sql.substring(offset, offset + 100));
+    return match?.[1]?.toUpperCase() ?? '';
+}
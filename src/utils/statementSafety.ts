@@ -0,0 +1,58 @@
+/**
+ * Utility functions for detecting destructive DML and DDL statements
+ */
+import { maskCommentsAndStrings } from './sqlSplitter';
+
+/**
+ * Kinds of statements that can destroy data
+ */
+export type DestructiveKind = 'DELETE_WITHOUT_WHERE' | 'DROP' | 'TRUNCATE' | 'CREATE_OR_REPLACE';
+
+const destructiveDescriptions: Record<DestructiveKind, string> = {
+    'DELETE_WITHOUT_WHERE': 'deletes every row of the table',
+    'DROP': 'drops an existing object',
+    'TRUNCATE': 'removes every row of the table',
+    'CREATE_OR_REPLACE': 'replaces the object if it already exists'
+};
+
+/**
+ * Classifies a statement as destructive based on its dry run statement type and its text
+ * @param statementType The statement type reported by the dry run, e.g. DELETE or DROP_TABLE
+ * @param sql The statement text
+ * @returns The kind of destructive statement, or undefined if the statement is not destructive
+ */
+export function getDestructiveKind(statementType: string | undefined, sql: string): DestructiveKind | undefined {
+    if (!statementType) {
+        return undefined;
+    }
+
+    const code = maskCommentsAndStrings(sql);
+
+    if (statementType === 'DELETE') {
+        // BigQuery requires a WHERE clause, so "delete everything" is written as WHERE true or WHERE 1=1
+        const whereMatch = /\bWHERE\b([\s\S]*)$/i.exec(code);
+        const condition = whereMatch ? whereMatch[1].trim().replace(/;$/, '').trim() : '';
+        return condition === '' || /^(TRUE|\(?\s*1\s*=\s*1\s*\)?)$/i.test(condition) ? 'DELETE_WITHOUT_WHERE' : undefined;
+    }
+    if (statementType.startsWith('DROP_')) {
+        return 'DROP';
+    }
+    if (statementType === 'TRUNCATE_TABLE') {
+        return 'TRUNCATE';
+    }
+    if (statementType.startsWith('CREATE_') && /\bCREATE\s+OR\s+REPLACE\b/i.test(code)) {
+        return 'CREATE_OR_REPLACE';
+    }
+
+    return undefined;
+}
+
+/**
+ * Describes a destructive statement for tooltips and notifications
+ * @param kind The kind of destructive statement
+ * @param statementType The statement type reported by the dry run
+ * @returns A sentence describing the risk
+ */
+export function describeDestructiveStatement(kind: DestructiveKind, statementType: string): string {
+    return `Destructive statement (${statementType}): ${destructiveDescriptions[kind]}.`;
+}
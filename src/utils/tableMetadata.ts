@@ -0,0 +1,123 @@
+/**
+ * Utility functions for reading and displaying table metadata returned by the BigQuery API
+ */
+import { formatDataSize } from './formatters';
+import { SchemaField } from './schemaFormatter';
+
+/**
+ * How a table is partitioned
+ */
+export interface TablePartitioning {
+    /** DAY, HOUR, MONTH or YEAR for time partitioning, RANGE for integer range partitioning */
+    type: string;
+    /** The partitioning column; undefined for ingestion-time partitioning */
+    field?: string;
+}
+
+/**
+ * The parts of a table's metadata the extension uses
+ */
+export interface TableMetadata {
+    /** TABLE, VIEW, MATERIALIZED_VIEW, EXTERNAL or SNAPSHOT */
+    type?: string;
+    partitioning?: TablePartitioning;
+    /** Set when queries must filter on the partitioning column */
+    requirePartitionFilter: boolean;
+    /** The clustering columns in order; empty if the table is not clustered */
+    clusteringFields: string[];
+    /** The table's columns; empty if the schema is not known */
+    schema: SchemaField[];
+    /** Number of rows; undefined for views and external tables */
+    numRows?: number;
+    /** Uncompressed size of the data in bytes */
+    logicalBytes?: number;
+    /** Compressed size of the stored data in bytes, including time travel storage */
+    physicalBytes?: number;
+    /** Time the table's data or schema was last modified */
+    lastModified?: number;
+    description?: string;
+}
+
+/**
+ * Reads a numeric field that the API returns as a string
+ * @param value The field value
+ * @returns The number, or undefined if the field is missing
+ */
+function parseNumber(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') {
+        return undefined;
+    }
+    const parsed = Number(value);
+    return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Reads the metadata of a table as returned by the tables.get API
+ * @param raw The table resource
+ * @returns The metadata
+ */
+export function parseTableMetadata(raw: any): TableMetadata {
+    let partitioning: TablePartitioning | undefined;
+    if (raw?.timePartitioning) {
+        partitioning = { type: raw.timePartitioning.type ?? 'DAY', field: raw.timePartitioning.field || undefined };
+    } else if (raw?.rangePartitioning) {
+        partitioning = { type: 'RANGE', field: raw.rangePartitioning.field || undefined };
+    }
+
+    return {
+        type: raw?.type,
+        partitioning,
+        // The setting moved from timePartitioning to the table, older tables may still have it there
+        requirePartitionFilter: !!(raw?.requirePartitionFilter ?? raw?.timePartitioning?.requirePartitionFilter),
+        clusteringFields: raw?.clustering?.fields ?? [],
+        schema: raw?.schema?.fields ?? [],
+        numRows: parseNumber(raw?.numRows),
+        logicalBytes: parseNumber(raw?.numBytes),
+        physicalBytes: parseNumber(raw?.numPhysicalBytes),
+        lastModified: parseNumber(raw?.lastModifiedTime),
+        description: raw?.description || undefined
+    };
+}
+
+/**
+ * Describes how a table is partitioned
+ * @param metadata The table metadata
+ * @returns E.g. "DAY on event_date (filter required)", or undefined if the table is not partitioned
+ */
+function formatPartitioning(metadata: TableMetadata): string | undefined {
+    const { partitioning } = metadata;
+    if (!partitioning) {
+        return undefined;
+    }
+    const column = partitioning.field ? `\`${partitioning.field}\`` : 'ingestion time';
+    return `${partitioning.type} on ${column}${metadata.requirePartitionFilter ? ' (filter required)' : ''}`;
+}
+
+/**
+ * Formats table metadata as Markdown for a hover
+ * @param name The fully qualified name of the table
+ * @param metadata The table metadata
+ * @returns The Markdown text with the description followed by a table of the available details
+ */
+export function formatTableMetadataMarkdown(name: string, metadata: TableMetadata): string {
+    const details: Array<[string, string | undefined]> = [
+        ['Rows', metadata.numRows?.toLocaleString('en-US')],
+        ['Logical size', metadata.logicalBytes !== undefined ? formatDataSize(metadata.logicalBytes) : undefined],
+        ['Physical size', metadata.physicalBytes !== undefined ? formatDataSize(metadata.physicalBytes) : undefined],
+        ['Partitioning', formatPartitioning(metadata)],
+        ['Clustering', metadata.clusteringFields.length > 0 ? metadata.clusteringFields.map(field => `\`${field}\``).join(', ') : undefined],
+        ['Last modified', metadata.lastModified !== undefined ? new Date(metadata.lastModified).toLocaleString() : undefined]
+    ];
+    const rows = details
+        .filter((detail): detail is [string, string] => detail[1] !== undefined)
+        .map(([label, value]) => `| ${label} | ${value} |`);
+
+    const sections = [`**\`${name}\`**${metadata.type ? ` (${metadata.type})` : ''}`];
+    if (metadata.description) {
+        sections.push(metadata.description);
+    }
+    if (rows.length > 0) {
+        sections.push(['| | |', '| --- | --- |', ...rows].join('\n'));
+    }
+    return sections.join('\n\n');
+}
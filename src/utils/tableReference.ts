@@ -0,0 +1,97 @@
+/**
+ * Utility functions for finding table references in SQL text
+ */
+import { maskCommentsAndStrings } from './sqlSplitter';
+
+/**
+ * A fully qualified table name found in SQL text
+ */
+export interface TableReferenceMatch {
+    projectId: string;
+    datasetId: string;
+    tableId: string;
+    startOffset: number;
+    endOffset: number;
+}
+
+// Dotted names whose parts are plain or backtick-quoted; project IDs may contain dashes
+const dottedNamePattern = /(?:`[^`\n]+`|[A-Za-z0-9_-]+)(?:\s*\.\s*(?:`[^`\n]+`|[A-Za-z0-9_-]+))*/g;
+const namePartPattern = /`[^`\n]+`|[A-Za-z0-9_-]+/g;
+
+/**
+ * A table named in the FROM or JOIN clause of a query
+ */
+export interface FromTable {
+    /** The parts of the name as written, e.g. ["sales", "orders"] */
+    parts: string[];
+    alias?: string;
+}
+
+// A table name after FROM or JOIN, followed by an optional alias
+const fromTablePattern = /\b(?:FROM|JOIN)\s+((?:`[^`\n]+`|[A-Za-z0-9_-]+)(?:\s*\.\s*(?:`[^`\n]+`|[A-Za-z0-9_-]+))*)(\s*\()?(?:\s+(?:AS\s+)?([A-Za-z_][A-Za-z0-9_]*))?/gi;
+// Words that can follow a table name but are not aliases
+const nonAliasKeywords = new Set([
+    'WHERE', 'JOIN', 'ON', 'USING', 'LEFT', 'RIGHT', 'INNER', 'OUTER', 'FULL', 'CROSS', 'GROUP', 'ORDER', 'LIMIT',
+    'UNION', 'INTERSECT', 'EXCEPT', 'WINDOW', 'QUALIFY', 'HAVING', 'FOR', 'TABLESAMPLE', 'PIVOT', 'UNPIVOT', 'WITH', 'SELECT'
+]);
+
+/**
+ * Splits a table name into its parts
+ * @param name The name as written, e.g. `my-project`.sales.orders
+ * @returns The parts without backticks
+ */
+export function splitTableName(name: string): string[] {
+    // Quoted parts may themselves contain dots, as in `project.dataset.table`
+    return (name.match(namePartPattern) ?? [])
+        .flatMap(part => part.startsWith('`') ? part.slice(1, -1).split('.') : [part]);
+}
+
+/**
+ * Finds the tables a query reads in its FROM and JOIN clauses, with their aliases.
+ * Function calls such as UNNEST(...) and subqueries are skipped.
+ * @param sql The SQL query
+ * @returns The tables in order of appearance
+ */
+export function findFromTables(sql: string): FromTable[] {
+    const tables: FromTable[] = [];
+    for (const match of maskCommentsAndStrings(sql).matchAll(fromTablePattern)) {
+        if (match[2]) {
+            continue;
+        }
+        const alias = match[3] && !nonAliasKeywords.has(match[3].toUpperCase()) ? match[3] : undefined;
+        tables.push({ parts: splitTableName(match[1]), alias });
+    }
+    return tables;
+}
+
+/**
+ * Finds the fully qualified table reference at an offset, e.g. `my-project.sales.orders`
+ * or `my-project`.sales.orders. References in comments and strings are ignored.
+ * @param sql The SQL text
+ * @param offset The offset, e.g. of the mouse pointer
+ * @returns The reference, or undefined if there is no project.dataset.table name at the offset
+ */
+export function findTableReferenceAt(sql: string, offset: number): TableReferenceMatch | undefined {
+    const masked = maskCommentsAndStrings(sql);
+    // Names do not span lines, so only the line of the offset is searched
+    const lineStart = masked.lastIndexOf('\n', offset - 1) + 1;
+    const lineEnd = masked.indexOf('\n', offset);
+    const line = masked.substring(lineStart, lineEnd === -1 ? masked.length : lineEnd);
+
+    for (const match of line.matchAll(dottedNamePattern)) {
+        const startOffset = lineStart + (match.index ?? 0);
+        const endOffset = startOffset + match[0].length;
+        if (offset < startOffset || offset > endOffset) {
+            continue;
+        }
+
+        const parts = splitTableName(match[0]);
+        if (parts.length !== 3 || parts.some(part => part.length === 0)) {
+            return undefined;
+        }
+        const [projectId, datasetId, tableId] = parts;
+        return { projectId, datasetId, tableId, startOffset, endOffset };
+    }
+
+    return undefined;
+}
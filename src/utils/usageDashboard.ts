@@ -0,0 +1,216 @@
+/**
+ * Utility functions for rendering the usage dashboard webview
+ */
+import { formatDataSize } from './formatters';
+import { getRecentDays, getTopFiles, summarizeUsage, UsageCounters, UsageStats } from './usageStats';
+
+// Number of days shown in the daily chart and files shown in the table
+const chartDays = 30;
+const tableFiles = 20;
+
+// Size of the daily chart in SVG units
+const chartWidth = 600;
+const chartHeight = 160;
+
+/**
+ * Values the dashboard page needs from the webview
+ */
+export interface DashboardPageOptions {
+    /** The current time, used to find the recent days */
+    now: number;
+    /** The webview's CSP source for styles */
+    cspSource: string;
+    /** Nonce that allows the page's script to run */
+    nonce: string;
+}
+
+/**
+ * Escapes text for use in HTML content and attributes
+ * @param text The text
+ * @returns The escaped text
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Formats a share as a percentage
+ * @param rate The share from 0 to 1
+ * @returns The percentage, e.g. "12.5%"
+ */
+function formatRate(rate: number): string {
+    return `${parseFloat((rate * 100).toFixed(1))}%`;
+}
+
+/**
+ * Renders the daily dry runs as stacked SVG bars of successful, cached and failed dry runs
+ * @param days Pairs of day and counters, oldest first
+ * @returns The SVG markup
+ */
+function renderDailyChart(days: Array<[string, UsageCounters]>): string {
+    const max = Math.max(1, ...days.map(([, counters]) => counters.dryRuns));
+    const slot = chartWidth / days.length;
+    const barWidth = Math.max(1, slot - 4);
+
+    const bars = days.map(([day, counters], index) => {
+        const x = (index * slot + 2).toFixed(1);
+        const scale = (value: number) => value / max * chartHeight;
+        // Stack from the bottom: failed, then cached, then the remaining successful API calls
+        const segments = [
+            { value: counters.errors, className: 'errors' },
+            { value: Math.min(counters.cacheHits, counters.dryRuns - counters.errors), className: 'cached' },
+            { value: Math.max(0, counters.dryRuns - counters.errors - counters.cacheHits), className: 'api' }
+        ];
+        let y = chartHeight;
+        const rects = segments.filter(segment => segment.value > 0).map(segment => {
+            const height = scale(segment.value);
+            y -= height;
+            return `<rect class="${segment.className}" x="${x}" y="${y.toFixed(1)}" width="${barWidth.toFixed(1)}" height="${height.toFixed(1)}"></rect>`;
+        }).join('');
+        const title = `${day}: ${counters.dryRuns} dry runs, ${counters.cacheHits} cached, ${counters.errors} failed, ${formatDataSize(counters.bytes)}`;
+        return `<g><title>${escapeHtml(title)}</title><rect class="slot" x="${x}" y="0" width="${barWidth.toFixed(1)}" height="${chartHeight}"></rect>${rects}</g>`;
+    }).join('');
+
+    return `<svg class="chart" viewBox="0 0 ${chartWidth} ${chartHeight}" preserveAspectRatio="none" role="img" aria-label="Dry runs per day">${bars}</svg>
+<div class="axis"><span>${escapeHtml(days[0][0])}</span><span>${escapeHtml(days[days.length - 1][0])}</span></div>`;
+}
+
+/**
+ * Renders the analyses per trigger as horizontal bars
+ * @param triggers Number of analyses per trigger
+ * @returns The HTML markup
+ */
+function renderTriggerChart(triggers: Record<string, number>): string {
+    const entries = Object.entries(triggers).sort(([, a], [, b]) => b - a);
+    if (entries.length === 0) {
+        return '<p class="empty">No analyses recorded yet.</p>';
+    }
+    const max = Math.max(...entries.map(([, count]) => count));
+    return entries.map(([trigger, count]) => `<div class="bar-row">
+    <span class="bar-label">${escapeHtml(trigger)}</span>
+    <span class="bar-track"><span class="bar" style="width: ${(count / max * 100).toFixed(1)}%"></span></span>
+    <span class="bar-value">${count}</span>
+</div>`).join('\n');
+}
+
+/**
+ * Renders the files with the most dry runs as a table
+ * @param files Pairs of file and counters, most dry runs first
+ * @returns The HTML markup
+ */
+function renderFileTable(files: Array<[string, UsageCounters]>): string {
+    if (files.length === 0) {
+        return '<p class="empty">No files analyzed yet.</p>';
+    }
+    const rows = files.map(([file, counters]) => `<tr>
+    <td>${escapeHtml(file)}</td>
+    <td class="number">${counters.dryRuns}</td>
+    <td class="number">${counters.cacheHits}</td>
+    <td class="number">${counters.errors}</td>
+    <td class="number">${formatDataSize(counters.bytes)}</td>
+</tr>`).join('\n');
+    return `<table>
+<thead><tr><th>File</th><th class="number">Dry runs</th><th class="number">Cache hits</th><th class="number">Errors</th><th class="number">Bytes estimated</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`;
+}
+
+/**
+ * Renders the statistics part of the dashboard: the summary cards and charts.
+ * The open page replaces its content with this markup when the statistics change, keeping its scroll position.
+ * @param stats The usage statistics
+ * @param now The current time, used to find the recent days
+ * @returns The HTML markup
+ */
+export function formatUsageDashboardContent(stats: UsageStats, now: number): string {
+    const summary = summarizeUsage(stats);
+
+    return `<p class="since">Since ${escapeHtml(new Date(stats.since).toLocaleString())}</p>
+<div class="cards">
+    <div class="card"><div class="value">${summary.dryRuns}</div><div class="label">Dry runs</div></div>
+    <div class="card"><div class="value">${summary.cacheHits}</div><div class="label">Cache hits (${formatRate(summary.cacheHitRate)})</div></div>
+    <div class="card"><div class="value">${summary.errors}</div><div class="label">Errors (${formatRate(summary.errorRate)} error rate)</div></div>
+    <div class="card"><div class="value">${formatDataSize(summary.bytes)}</div><div class="label">Bytes estimated</div></div>
+</div>
+<h2>Dry runs per day</h2>
+<div class="legend"><span class="api">API</span><span class="cached">Cached</span><span class="errors">Failed</span></div>
+${renderDailyChart(getRecentDays(stats, chartDays, now))}
+<h2>Analyses by trigger</h2>
+${renderTriggerChart(stats.triggers)}
+<h2>Most analyzed files</h2>
+${renderFileTable(getTopFiles(stats, tableFiles))}`;
+}
+
+/**
+ * Renders the usage dashboard page with charts of the statistics and buttons to export or reset them
+ * @param stats The usage statistics
+ * @param options The values needed from the webview
+ * @returns The HTML document
+ */
+export function formatUsageDashboardHtml(stats: UsageStats, options: DashboardPageOptions): string {
+    const { cspSource, nonce } = options;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>BigQuery Previewer Usage</title>
+<style>
+    body { color: var(--vscode-foreground); font-family: var(--vscode-font-family); padding: 0 16px 16px; }
+    .toolbar { display: flex; gap: 8px; margin-bottom: 16px; }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 12px; cursor: pointer; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+    button.secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+    .cards { display: grid; grid-template-columns: repeat(auto-fit, minmax(140px, 1fr)); gap: 8px; margin-bottom: 16px; }
+    .card { border: 1px solid var(--vscode-panel-border); padding: 8px 12px; }
+    .card .value { font-size: 1.6em; }
+    .card .label, .axis, .empty, .since { color: var(--vscode-descriptionForeground); }
+    .chart { width: 100%; height: ${chartHeight}px; }
+    .chart .slot { fill: transparent; }
+    .chart .api { fill: var(--vscode-charts-blue); }
+    .chart .cached { fill: var(--vscode-charts-green); }
+    .chart .errors { fill: var(--vscode-charts-red); }
+    .legend span::before { content: ''; display: inline-block; width: 10px; height: 10px; margin: 0 4px 0 12px; }
+    .legend .api::before { background: var(--vscode-charts-blue); }
+    .legend .cached::before { background: var(--vscode-charts-green); }
+    .legend .errors::before { background: var(--vscode-charts-red); }
+    .axis { display: flex; justify-content: space-between; font-size: 0.9em; }
+    .bar-row { display: grid; grid-template-columns: 100px 1fr 60px; gap: 8px; align-items: center; margin: 4px 0; }
+    .bar-track { background: var(--vscode-editorWidget-background); height: 12px; }
+    .bar { display: block; background: var(--vscode-charts-purple); height: 100%; }
+    .bar-value, .number { text-align: right; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border-bottom: 1px solid var(--vscode-panel-border); padding: 4px 8px; text-align: left; }
+</style>
+</head>
+<body>
+<h1>BigQuery Previewer Usage</h1>
+<div class="toolbar">
+    <button id="export">Export Raw Data</button>
+    <button id="reset" class="secondary">Reset Counters</button>
+</div>
+<div id="content">
+${formatUsageDashboardContent(stats, options.now)}
+</div>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.getElementById('export').addEventListener('click', () => vscode.postMessage({ command: 'export' }));
+    document.getElementById('reset').addEventListener('click', () => vscode.postMessage({ command: 'reset' }));
+    window.addEventListener('message', event => {
+        if (event.data.command === 'update') {
+            document.getElementById('content').innerHTML = event.data.html;
+        }
+    });
+</script>
+</body>
+</html>`;
+}
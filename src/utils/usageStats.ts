@@ -0,0 +1,189 @@
+/**
+ * Utility functions for aggregating dry run usage statistics across sessions
+ */
+
+/**
+ * Dry run counters of a day, a file or all usage
+ */
+export interface UsageCounters {
+    /** Dry runs requested, including those served from the cache */
+    dryRuns: number;
+    cacheHits: number;
+    errors: number;
+    /** Bytes the successful dry runs estimated to scan */
+    bytes: number;
+}
+
+/**
+ * Usage statistics as stored in the global state
+ */
+export interface UsageStats {
+    /** Time the statistics were created or last reset */
+    since: number;
+    /** Counters per local day, keyed by YYYY-MM-DD */
+    days: Record<string, UsageCounters>;
+    /** Counters per analyzed file */
+    files: Record<string, UsageCounters>;
+    /** Number of analyses per trigger, e.g. save or selection */
+    triggers: Record<string, number>;
+}
+
+/**
+ * A single dry run to count
+ */
+export interface DryRunUsage {
+    timestamp: number;
+    /** The file the query came from, if known */
+    file?: string;
+    bytes: number;
+    cached: boolean;
+    failed: boolean;
+}
+
+/**
+ * Totals of all days with the derived rates
+ */
+export interface UsageSummary extends UsageCounters {
+    /** Share of dry runs that failed, from 0 to 1 */
+    errorRate: number;
+    /** Share of dry runs served from the cache, from 0 to 1 */
+    cacheHitRate: number;
+}
+
+/**
+ * Creates empty statistics
+ * @param now The current time
+ * @returns The statistics
+ */
+export function createUsageStats(now: number): UsageStats {
+    return { since: now, days: {}, files: {}, triggers: {} };
+}
+
+/**
+ * Gets the local day of a time
+ * @param timestamp The time
+ * @returns The day as YYYY-MM-DD
+ */
+export function getDayKey(timestamp: number): string {
+    const date = new Date(timestamp);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Adds a dry run to counters
+ * @param counters The existing counters, if any
+ * @param usage The dry run
+ * @returns New counters including the dry run
+ */
+function addToCounters(counters: UsageCounters | undefined, usage: DryRunUsage): UsageCounters {
+    const current = counters ?? { dryRuns: 0, cacheHits: 0, errors: 0, bytes: 0 };
+    return {
+        dryRuns: current.dryRuns + 1,
+        cacheHits: current.cacheHits + (usage.cached ? 1 : 0),
+        errors: current.errors + (usage.failed ? 1 : 0),
+        bytes: current.bytes + (usage.failed ? 0 : usage.bytes)
+    };
+}
+
+/**
+ * Keeps the entries with the largest value of a record
+ * @param record The record to trim
+ * @param max The maximum number of entries
+ * @param rank Returns the value to rank an entry by; the largest values are kept
+ * @returns The trimmed record
+ */
+function keepTop<T>(record: Record<string, T>, max: number, rank: (key: string, value: T) => number | string): Record<string, T> {
+    const entries = Object.entries(record);
+    if (entries.length <= max) {
+        return record;
+    }
+    const ranked = entries.sort(([keyA, a], [keyB, b]) => {
+        const rankA = rank(keyA, a);
+        const rankB = rank(keyB, b);
+        return rankA < rankB ? 1 : rankA > rankB ? -1 : 0;
+    });
+    return Object.fromEntries(ranked.slice(0, max));
+}
+
+/**
+ * Counts a dry run
+ * @param stats The existing statistics
+ * @param usage The dry run
+ * @param limits The number of days and files to keep; the oldest days and least used files are dropped
+ * @returns The updated statistics
+ */
+export function recordDryRunUsage(stats: UsageStats, usage: DryRunUsage, limits: { maxDays: number; maxFiles: number }): UsageStats {
+    const day = getDayKey(usage.timestamp);
+    const days = { ...stats.days, [day]: addToCounters(stats.days[day], usage) };
+    const files = usage.file ? { ...stats.files, [usage.file]: addToCounters(stats.files[usage.file], usage) } : stats.files;
+
+    return {
+        ...stats,
+        // Day keys sort chronologically
+        days: keepTop(days, limits.maxDays, key => key),
+        // The file just analyzed is always kept so that its counts keep growing
+        files: keepTop(files, limits.maxFiles, (key, counters) => key === usage.file ? Infinity : counters.dryRuns)
+    };
+}
+
+/**
+ * Counts an analysis by what triggered it
+ * @param stats The existing statistics
+ * @param trigger The trigger, e.g. save or selection
+ * @returns The updated statistics
+ */
+export function recordTriggerUsage(stats: UsageStats, trigger: string): UsageStats {
+    return { ...stats, triggers: { ...stats.triggers, [trigger]: (stats.triggers[trigger] ?? 0) + 1 } };
+}
+
+/**
+ * Sums the counters of all days
+ * @param stats The statistics
+ * @returns The totals and rates
+ */
+export function summarizeUsage(stats: UsageStats): UsageSummary {
+    const totals = Object.values(stats.days).reduce((sum, counters) => ({
+        dryRuns: sum.dryRuns + counters.dryRuns,
+        cacheHits: sum.cacheHits + counters.cacheHits,
+        errors: sum.errors + counters.errors,
+        bytes: sum.bytes + counters.bytes
+    }), { dryRuns: 0, cacheHits: 0, errors: 0, bytes: 0 });
+
+    return {
+        ...totals,
+        errorRate: totals.dryRuns > 0 ? totals.errors / totals.dryRuns : 0,
+        cacheHitRate: totals.dryRuns > 0 ? totals.cacheHits / totals.dryRuns : 0
+    };
+}
+
+/**
+ * Gets the counters of the most recent days, including days without dry runs
+ * @param stats The statistics
+ * @param count The number of days
+ * @param now The current time
+ * @returns Pairs of day and counters, oldest first
+ */
+export function getRecentDays(stats: UsageStats, count: number, now: number): Array<[string, UsageCounters]> {
+    const days: Array<[string, UsageCounters]> = [];
+    const date = new Date(now);
+    for (let i = 0; i < count; i++) {
+        const day = getDayKey(date.getTime());
+        days.unshift([day, stats.days[day] ?? { dryRuns: 0, cacheHits: 0, errors: 0, bytes: 0 }]);
+        // Stepping by calendar day keeps the keys right across daylight saving changes
+        date.setDate(date.getDate() - 1);
+    }
+    return days;
+}
+
+/**
+ * Gets the files with the most dry runs
+ * @param stats The statistics
+ * @param count The maximum number of files
+ * @returns Pairs of file and counters, most dry runs first
+ */
+export function getTopFiles(stats: UsageStats, count: number): Array<[string, UsageCounters]> {
+    return Object.entries(stats.files)
+        .sort(([fileA, a], [fileB, b]) => b.dryRuns - a.dryRuns || fileA.localeCompare(fileB))
+        .slice(0, count);
+}